@@ -0,0 +1,13 @@
+// Type checking is left to `tsc -p tests` (full type-checking inside ts-jest
+// exhausts the heap on this project), so tests are only transpiled here
+/** @type {import('jest').Config} */
+module.exports = {
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: '<rootDir>/tests/tsconfig.json' }]
+  },
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1'
+  }
+};
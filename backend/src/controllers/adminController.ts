@@ -0,0 +1,138 @@
+import { Request, Response } from 'express';
+import { logger } from '@/utils/logger';
+import { backfillService } from '@/services/backfill';
+import { ANALYZER_VERSION } from '@/services/audioAnalysis';
+import { APIResponse, BackfillProgress, BackfillRequest } from '@/types';
+
+// Versions are compared numerically part by part, so only dotted numbers are accepted
+const VERSION_PATTERN = /^\d+(\.\d+)*$/;
+const MAX_BACKFILL_LIMIT = 100000;
+
+/**
+ * Queue stale or failed tracks for re-analysis
+ * POST /v1/admin/backfill
+ */
+export async function startBackfill(
+  req: Request<{}, APIResponse<BackfillProgress>, BackfillRequest>,
+  res: Response<APIResponse<BackfillProgress>>
+): Promise<void> {
+  try {
+    const { targetVersion, includeFailed, limit } = req.body;
+
+    if (targetVersion !== undefined && (typeof targetVersion !== 'string' || !VERSION_PATTERN.test(targetVersion))) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'targetVersion must be a dotted version number, e.g. 1.2.0',
+          timestamp: new Date()
+        }
+      });
+      return;
+    }
+
+    // Tracks are only ever re-analysed to the current version, so a higher
+    // target would leave them stale and queue them again on every run
+    if (targetVersion !== undefined && compareVersions(targetVersion, ANALYZER_VERSION) > 0) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: `targetVersion must not be above the current analyzer version ${ANALYZER_VERSION}`,
+          timestamp: new Date()
+        }
+      });
+      return;
+    }
+
+    if (includeFailed !== undefined && typeof includeFailed !== 'boolean') {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'includeFailed must be a boolean',
+          timestamp: new Date()
+        }
+      });
+      return;
+    }
+
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_BACKFILL_LIMIT)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: `limit must be an integer between 1 and ${MAX_BACKFILL_LIMIT}`,
+          timestamp: new Date()
+        }
+      });
+      return;
+    }
+
+    const progress = await backfillService.start({ targetVersion, includeFailed, limit });
+
+    if (!progress) {
+      res.status(409).json({
+        success: false,
+        error: {
+          code: 'BACKFILL_RUNNING',
+          message: 'A backfill is already in progress',
+          timestamp: new Date()
+        }
+      });
+      return;
+    }
+
+    logger.info('Backfill started', { userId: req.user?.id, runId: progress.run?.id, total: progress.run?.total });
+    res.status(202).json({ success: true, data: progress });
+
+  } catch (error) {
+    logger.error('Backfill start error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'BACKFILL_ERROR',
+        message: 'Failed to start backfill',
+        timestamp: new Date()
+      }
+    });
+  }
+}
+
+/**
+ * Progress of the latest backfill run
+ * GET /v1/admin/backfill
+ */
+export async function getBackfillProgress(
+  req: Request,
+  res: Response<APIResponse<BackfillProgress>>
+): Promise<void> {
+  try {
+    const progress = await backfillService.getProgress();
+    res.json({ success: true, data: progress });
+  } catch (error) {
+    logger.error('Backfill progress error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'BACKFILL_ERROR',
+        message: 'Failed to get backfill progress',
+        timestamp: new Date()
+      }
+    });
+  }
+}
+
+/**
+ * Compare dotted versions the way findStaleAnalysisIds does in Postgres:
+ * part by part, with a version that runs out of parts sorting first
+ */
+function compareVersions(a: string, b: string): number {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    if (left[i] !== right[i]) return left[i] - right[i];
+  }
+  return left.length - right.length;
+}
@@ -0,0 +1,290 @@
+import { Request, Response } from 'express';
+import { logger } from '@/utils/logger';
+import { UUID_PATTERN } from '@/utils/validation';
+import { database } from '@/utils/database';
+import { trackService } from '@/services/tracks';
+import { mixService } from '@/services/mixes';
+import { webhookService } from '@/services/webhooks';
+import { optimizeSetOrder } from '@/services/analysis/setOrder';
+import { planTransitions } from '@/services/analysis/transitions';
+import { suggestPitchShifts } from '@/services/analysis/pitchShift';
+import { convertToCamelot } from '@/services/analysis/musicalKey';
+import { APIResponse, EnergyShape, Mix, SetOrderRequest, Track } from '@/types';
+
+const ENERGY_SHAPES: EnergyShape[] = ['flat', 'build_up', 'peak_and_release'];
+const MIN_SET_TRACKS = 2;
+const MAX_SET_TRACKS = 100;
+
+// With key lock, shifts beyond two semitones start to sound processed
+const DEFAULT_MAX_SEMITONES = 2;
+const MAX_SEMITONES = 2;
+
+/**
+ * Order tracks for a DJ set by key, tempo and energy shape
+ * POST /v1/mixes/order
+ */
+export async function orderSet(
+  req: Request<{}, APIResponse, SetOrderRequest>,
+  res: Response<APIResponse>
+): Promise<void> {
+  try {
+    const { trackIds, requestId, energyShape = 'flat', firstTrackId, lastTrackId } = req.body;
+
+    if ((trackIds === undefined) === (requestId === undefined)) {
+      sendError(res, 400, 'INVALID_REQUEST', 'Provide either trackIds or requestId');
+      return;
+    }
+    if (trackIds !== undefined && (!Array.isArray(trackIds) || !trackIds.every(id => typeof id === 'string' && UUID_PATTERN.test(id)))) {
+      sendError(res, 400, 'INVALID_REQUEST', 'trackIds must be an array of track IDs');
+      return;
+    }
+    if (requestId !== undefined && (typeof requestId !== 'string' || !UUID_PATTERN.test(requestId))) {
+      sendError(res, 400, 'INVALID_REQUEST', 'requestId must be a request ID');
+      return;
+    }
+    if (!ENERGY_SHAPES.includes(energyShape)) {
+      sendError(res, 400, 'INVALID_REQUEST', `energyShape must be one of: ${ENERGY_SHAPES.join(', ')}`);
+      return;
+    }
+    if (firstTrackId !== undefined && firstTrackId === lastTrackId) {
+      sendError(res, 400, 'INVALID_REQUEST', 'firstTrackId and lastTrackId must be different tracks');
+      return;
+    }
+
+    const warnings: string[] = [];
+    let ids: string[];
+    if (trackIds) {
+      ids = trackIds;
+    } else {
+      const requestTrackIds = await getRequestTrackIds(requestId as string, req.user?.id);
+      if (!requestTrackIds) {
+        sendError(res, 404, 'REQUEST_NOT_FOUND', 'Music request not found or its tracks were not recorded');
+        return;
+      }
+      ids = requestTrackIds;
+    }
+    ids = [...new Set(ids)];
+
+    if (ids.length < MIN_SET_TRACKS || ids.length > MAX_SET_TRACKS) {
+      sendError(res, 400, 'INVALID_REQUEST', `A set must have between ${MIN_SET_TRACKS} and ${MAX_SET_TRACKS} tracks`);
+      return;
+    }
+    for (const [name, pinned] of [['firstTrackId', firstTrackId], ['lastTrackId', lastTrackId]]) {
+      if (pinned !== undefined && !ids.includes(pinned)) {
+        sendError(res, 400, 'INVALID_REQUEST', `${name} must be one of the set's tracks`);
+        return;
+      }
+    }
+
+    const { tracks, missing } = await findTracks(ids, req.user?.id);
+
+    // Tracks of a music request may not all have been stored; order the rest
+    if (missing.length > 0 && (trackIds || [firstTrackId, lastTrackId].some(id => id && missing.includes(id)))) {
+      sendError(res, 404, 'TRACK_NOT_FOUND', `Tracks not found: ${missing.join(', ')}`);
+      return;
+    }
+    if (tracks.length < MIN_SET_TRACKS) {
+      sendError(res, 404, 'TRACK_NOT_FOUND', `Fewer than ${MIN_SET_TRACKS} of the request's tracks are stored`);
+      return;
+    }
+    for (const id of missing) warnings.push(`Track ${id} is not stored and was left out`);
+
+    const order = optimizeSetOrder(tracks, { energyShape, firstTrackId, lastTrackId });
+    const tracksById = new Map(tracks.map(track => [track.id, track]));
+
+    res.json({
+      success: true,
+      data: {
+        ...order,
+        tracks: order.trackIds.map(id => {
+          const track = tracksById.get(id) as Track;
+          return {
+            id: track.id,
+            youtubeId: track.youtubeId,
+            title: track.title,
+            artist: track.artist,
+            bpm: track.bpm,
+            camelotKey: convertToCamelot(track.musicalKey),
+            energyLevel: track.energyLevel
+          };
+        }),
+        warnings: [...warnings, ...order.warnings]
+      }
+    });
+
+  } catch (error) {
+    logger.error('Order set error:', error);
+    sendError(res, 500, 'MIX_ERROR', 'Failed to order tracks');
+  }
+}
+
+/**
+ * Plan transitions from one track into another and store them as a mix
+ * POST /v1/mixes/transitions
+ */
+export async function createTransition(
+  req: Request<{}, APIResponse<Mix>, { outgoingTrackId?: string; incomingTrackId?: string }>,
+  res: Response<APIResponse<Mix>>
+): Promise<void> {
+  try {
+    const { outgoingTrackId, incomingTrackId } = req.body;
+
+    for (const [name, id] of [['outgoingTrackId', outgoingTrackId], ['incomingTrackId', incomingTrackId]]) {
+      if (typeof id !== 'string' || !UUID_PATTERN.test(id)) {
+        sendError(res, 400, 'INVALID_REQUEST', `${name} must be a track ID`);
+        return;
+      }
+    }
+    if (outgoingTrackId === incomingTrackId) {
+      sendError(res, 400, 'INVALID_REQUEST', 'outgoingTrackId and incomingTrackId must be different tracks');
+      return;
+    }
+
+    const [outgoing, incoming] = await Promise.all([
+      trackService.getById(outgoingTrackId as string, req.user?.id),
+      trackService.getById(incomingTrackId as string, req.user?.id)
+    ]);
+    if (!outgoing || !incoming) {
+      sendError(res, 404, 'TRACK_NOT_FOUND', 'Track not found');
+      return;
+    }
+
+    const planning = planTransitions(outgoing, incoming);
+    if (!planning) {
+      const missing = outgoing.beatGrid?.downbeats.length ? incoming : outgoing;
+      sendError(res, 404, 'ANALYSIS_NOT_AVAILABLE', `No beat grid has been detected for "${missing.title}"`);
+      return;
+    }
+
+    const mix = await mixService.save({
+      userId: req.user?.id,
+      outgoingTrackId: outgoing.id,
+      incomingTrackId: incoming.id,
+      ...planning
+    });
+
+    webhookService.dispatch(req.user?.id, 'mix.created', mix);
+
+    res.status(201).json({
+      success: true,
+      data: mix
+    });
+
+  } catch (error) {
+    logger.error('Create transition error:', error);
+    sendError(res, 500, 'MIX_ERROR', 'Failed to plan transition');
+  }
+}
+
+/**
+ * Get a stored mix's transition plans
+ * GET /v1/mixes/:id
+ */
+export async function getMix(
+  req: Request<{ id: string }>,
+  res: Response<APIResponse<Mix>>
+): Promise<void> {
+  try {
+    if (!UUID_PATTERN.test(req.params.id)) {
+      sendError(res, 404, 'MIX_NOT_FOUND', 'Mix not found');
+      return;
+    }
+
+    const mix = await mixService.getById(req.params.id, req.user?.id);
+    if (!mix) {
+      sendError(res, 404, 'MIX_NOT_FOUND', 'Mix not found');
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: mix
+    });
+
+  } catch (error) {
+    logger.error('Get mix error:', error);
+    sendError(res, 500, 'MIX_ERROR', 'Failed to get mix');
+  }
+}
+
+/**
+ * Pitch and tempo changes that make each transition of a pair or an ordered
+ * set harmonically compatible
+ * POST /v1/mixes/pitch-shifts
+ */
+export async function getPitchShifts(
+  req: Request<{}, APIResponse, { trackIds?: string[]; maxSemitones?: number }>,
+  res: Response<APIResponse>
+): Promise<void> {
+  try {
+    const { trackIds, maxSemitones = DEFAULT_MAX_SEMITONES } = req.body;
+
+    if (!Array.isArray(trackIds) || !trackIds.every(id => typeof id === 'string' && UUID_PATTERN.test(id))) {
+      sendError(res, 400, 'INVALID_REQUEST', 'trackIds must be an array of track IDs in play order');
+      return;
+    }
+    if (trackIds.length < MIN_SET_TRACKS || trackIds.length > MAX_SET_TRACKS) {
+      sendError(res, 400, 'INVALID_REQUEST', `trackIds must have between ${MIN_SET_TRACKS} and ${MAX_SET_TRACKS} tracks`);
+      return;
+    }
+    if (!Number.isInteger(maxSemitones) || maxSemitones < 0 || maxSemitones > MAX_SEMITONES) {
+      sendError(res, 400, 'INVALID_REQUEST', `maxSemitones must be an integer between 0 and ${MAX_SEMITONES}`);
+      return;
+    }
+
+    const { tracks, missing } = await findTracks(trackIds, req.user?.id);
+    if (missing.length > 0) {
+      sendError(res, 404, 'TRACK_NOT_FOUND', `Tracks not found: ${missing.join(', ')}`);
+      return;
+    }
+
+    const suggestions = suggestPitchShifts(tracks, { maxSemitones });
+
+    res.json({
+      success: true,
+      data: {
+        trackIds,
+        suggestions,
+        shiftedTracks: suggestions.filter(suggestion => suggestion.semitones !== 0).length,
+        incompatibleTransitions: suggestions.filter(suggestion => !suggestion.compatible).length
+      }
+    });
+
+  } catch (error) {
+    logger.error('Pitch shift suggestion error:', error);
+    sendError(res, 500, 'MIX_ERROR', 'Failed to suggest pitch shifts');
+  }
+}
+
+/**
+ * Load tracks the user can see, in the order given, and the IDs not found
+ */
+async function findTracks(ids: string[], viewerId?: string): Promise<{ tracks: Track[]; missing: string[] }> {
+  const found = await Promise.all(ids.map(id => trackService.getById(id, viewerId)));
+  return {
+    tracks: found.filter((track): track is Track => track !== null),
+    missing: ids.filter((_, i) => !found[i])
+  };
+}
+
+/**
+ * IDs of the tracks a user's POST /music/process request returned, if recorded
+ */
+async function getRequestTrackIds(requestId: string, userId?: string): Promise<string[] | null> {
+  const row = await database.queryOne<{ result: { trackIds?: string[] } | null }>(
+    'SELECT result FROM music_requests WHERE id = $1 AND user_id = $2',
+    [requestId, userId || null]
+  );
+  return row?.result?.trackIds ?? null;
+}
+
+function sendError(res: Response, status: number, code: string, message: string): void {
+  res.status(status).json({
+    success: false,
+    error: {
+      code,
+      message,
+      timestamp: new Date()
+    }
+  });
+}
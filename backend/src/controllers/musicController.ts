@@ -1,10 +1,13 @@
 import { Request, Response } from 'express';
 import { v4 as uuidv4 } from 'uuid';
+import path from 'path';
 import { database } from '@/utils/database';
 import { logger } from '@/utils/logger';
 import { llmService } from '@/services/llm';
 import { youtubeService } from '@/services/youtube';
 import { audioAnalysisService } from '@/services/audioAnalysis';
+import { trackService, applyAnalysis } from '@/services/tracks';
+import { uploadStorage } from '@/services/uploadStorage';
 import { 
   APIResponse, 
   ProcessMusicRequest, 
@@ -12,8 +15,23 @@ import {
   Track, 
   ProcessingStep,
   SearchRequest,
-  AnalyzeRequest 
+  AnalyzeRequest,
+  ProcessedQuery,
+  QualityGrade,
+  AudioAnalysisResult,
+  AudioFileTags,
+  TimeWindow,
+  WaveformLevel
 } from '@/types';
+import { compareFingerprints, DUPLICATE_SIMILARITY } from '@/services/analysis/fingerprint';
+import { convertToCamelot, normalizeKey, sameKey } from '@/services/analysis/musicalKey';
+
+// Shorter windows hold too few bars for tempo and key
+const MIN_WINDOW_SECONDS = 10;
+const MAX_ANALYSIS_WINDOWS = 20;
+
+// Best first
+const QUALITY_GRADES: QualityGrade[] = ['A', 'B', 'C', 'D', 'F'];
 
 /**
  * Main endpoint: Process natural language music requests
@@ -27,7 +45,7 @@ export async function processMusic(
   const requestId = uuidv4();
 
   try {
-    const { request: userQuery, maxTracks = 10, analyzeAudio = true, downloadQuality = 'standard' } = req.body;
+    const { request: userQuery, maxTracks = 10, analyzeAudio = true, downloadQuality = 'standard', minQuality } = req.body;
 
     if (!userQuery || typeof userQuery !== 'string') {
       res.status(400).json({
@@ -41,6 +59,18 @@ export async function processMusic(
       return;
     }
 
+    if (minQuality !== undefined && !QUALITY_GRADES.includes(minQuality)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: `minQuality must be one of: ${QUALITY_GRADES.join(', ')}`,
+          timestamp: new Date()
+        }
+      });
+      return;
+    }
+
     logger.info(`Processing music request: "${userQuery}"`, { requestId, userId: req.user?.id });
 
     const processingSteps: ProcessingStep[] = [];
@@ -83,6 +113,7 @@ export async function processMusic(
 
     // Step 3: Convert to Track objects and optionally analyze
     const trackProcessingStart = Date.now();
+    const fingerprinted: { track: Track; fingerprint: string }[] = [];
     
     for (const ytResult of uniqueResults) {
       try {
@@ -109,30 +140,46 @@ export async function processMusic(
         if (llmMetadata.genre) track.genre = llmMetadata.genre;
         if (llmMetadata.mood) track.mood = llmMetadata.mood;
         if (llmMetadata.bpm) track.bpm = llmMetadata.bpm;
-        if (llmMetadata.key) track.musicalKey = llmMetadata.key;
+        if (llmMetadata.key) {
+          track.musicalKey = normalizeKey(llmMetadata.key);
+          track.camelotKey = convertToCamelot(llmMetadata.key);
+        }
 
         // Perform audio analysis if requested
+        let waveformLevels: WaveformLevel[] | undefined;
+        let analyzedUrl: string | undefined;
+        let fingerprint: string | null = null;
+        let reusedAnalysisFrom: string | undefined;
         if (analyzeAudio) {
           try {
             const downloadInfo = await youtubeService.getDownloadUrl(ytResult.id, downloadQuality);
             track.audioUrl = downloadInfo.url;
-            
-            const analysis = await audioAnalysisService.analyzeFromUrl(downloadInfo.url);
-            
-            // Apply analysis results
-            if (analysis.bpm) track.bpm = analysis.bpm;
-            if (analysis.musicalKey) track.musicalKey = analysis.musicalKey;
-            if (analysis.camelotKey) track.camelotKey = analysis.camelotKey;
-            if (analysis.energyLevel !== undefined) track.energyLevel = analysis.energyLevel;
-            if (analysis.loudness !== undefined) track.loudness = analysis.loudness;
-            if (analysis.waveformPeaks) track.waveformPeaks = analysis.waveformPeaks;
-            if (analysis.genre && !track.genre) track.genre = analysis.genre;
-            if (analysis.mood && !track.mood) track.mood = analysis.mood;
-            
-            track.tempoConfidence = analysis.tempoConfidence;
-            track.keyConfidence = analysis.keyConfidence;
+
+            // Recognize re-uploads of a recording already seen in this request or stored
+            fingerprint = await audioAnalysisService.fingerprintFromUrl(downloadInfo.url);
+            const original = fingerprint ? await findOriginal(track, fingerprint, fingerprinted) : undefined;
+            if (original) {
+              track.canonicalTrackId = original.canonicalTrackId || original.id;
+            }
+
+            if (original && original.analysisStatus === 'completed') {
+              logger.info(`Reusing analysis of track ${original.id} for duplicate ${track.youtubeId}`);
+              applyAnalysis(track, { ...original, provenance: original.analysisProvenance });
+              // Same recording, different encode
+              track.quality = (await audioAnalysisService.assessQualityFromUrl(downloadInfo.url)) ?? undefined;
+              track.analysisCompletedAt = original.analysisCompletedAt;
+              reusedAnalysisFrom = original.id;
+            } else {
+              const analysis = await audioAnalysisService.analyzeFromUrl(downloadInfo.url, {
+                genres: [llmMetadata.genre, ...(processedQuery.filters.genre || [])].filter((genre): genre is string => !!genre)
+              });
+              applyAnalysis(track, analysis);
+              waveformLevels = analysis.waveformLevels;
+              analyzedUrl = downloadInfo.url;
+              track.analysisCompletedAt = new Date();
+            }
+
             track.analysisStatus = 'completed';
-            track.analysisCompletedAt = new Date();
             
           } catch (analysisError) {
             logger.error(`Analysis failed for track ${track.id}:`, analysisError);
@@ -140,10 +187,23 @@ export async function processMusic(
           }
         }
 
-        tracks.push(track);
+        // Save track to database, adopting the stored ID if it already existed
+        const storedId = await trackService.save(track);
+        if (storedId) {
+          track.id = storedId;
+          if (analyzedUrl && track.waveformPeaks) {
+            await storeWaveformLevels(storedId, waveformLevels, analyzedUrl);
+          }
+          if (reusedAnalysisFrom) {
+            await trackService.copyWaveformLevels(reusedAnalysisFrom, storedId);
+          }
+          if (fingerprint) {
+            await trackService.saveFingerprint(storedId, fingerprint, track.canonicalTrackId);
+            fingerprinted.push({ track, fingerprint });
+          }
+        }
 
-        // Save track to database
-        await saveTrackToDatabase(track);
+        tracks.push(track);
 
       } catch (trackError) {
         logger.error(`Failed to process track ${ytResult.id}:`, trackError);
@@ -158,23 +218,47 @@ export async function processMusic(
       details: { tracksProcessed: tracks.length, analyzeAudio }
     });
 
+    // Step 4: Collapse re-uploads of the same recording into one result
+    const collapseStart = Date.now();
+    const uniqueTracks = collapseDuplicates(tracks);
+    processingSteps.push({
+      step: 'duplicate_collapsing',
+      status: 'completed',
+      duration: Date.now() - collapseStart,
+      details: { before: tracks.length, after: uniqueTracks.length }
+    });
+
+    // Step 5: Apply key, descriptor and quality filters; tracks not measured are kept
+    const filterStart = Date.now();
+    const matchedTracks = uniqueTracks.filter(track =>
+      matchesKeyFilter(track, processedQuery.filters?.key)
+      && matchesDescriptorFilters(track, processedQuery.filters || {})
+      && meetsMinQuality(track, minQuality)
+    );
+    processingSteps.push({
+      step: 'descriptor_filtering',
+      status: 'completed',
+      duration: Date.now() - filterStart,
+      details: { before: uniqueTracks.length, after: matchedTracks.length }
+    });
+
     // Log the request to database
-    await logMusicRequest(req, userQuery, processedQuery, tracks, processingSteps, requestId);
+    await logMusicRequest(req, userQuery, processedQuery, matchedTracks, processingSteps, requestId);
 
     const totalTime = Date.now() - startTime;
     logger.info(`Music request completed`, { 
       requestId, 
       totalTime, 
-      tracksFound: tracks.length,
+      tracksFound: matchedTracks.length,
       userId: req.user?.id 
     });
 
     // Calculate confidence score
-    const confidence = calculateConfidenceScore(processedQuery, tracks);
+    const confidence = calculateConfidenceScore(processedQuery, matchedTracks);
 
     const result: MusicRequestResult = {
-      tracks,
-      totalFound: tracks.length,
+      tracks: matchedTracks,
+      totalFound: matchedTracks.length,
       processingSteps,
       confidence
     };
@@ -257,19 +341,72 @@ export async function searchMusic(
 }
 
 /**
- * Analyze specific audio
+ * Analyze specific audio, from a URL or an uploaded file
  * POST /v1/music/analyze
  */
 export async function analyzeAudio(
   req: Request<{}, APIResponse, AnalyzeRequest>,
   res: Response<APIResponse>
 ): Promise<void> {
+  const upload = req.file;
+
   try {
-    const { youtubeUrl, audioUrl, analysisType = ['bpm', 'key', 'energy', 'waveform'] } = req.body;
+    // Multipart fields arrive as strings
+    const body = upload ? parseUploadFields(req.body) : req.body;
+    const {
+      youtubeUrl, audioUrl, analysisType = ['bpm', 'key', 'energy', 'waveform'], bpmRange, keep = false, allowRecognition = false
+    } = body;
+
+    if (bpmRange && !isValidBpmRange(bpmRange)) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_BPM_RANGE',
+          message: 'bpmRange min and max must be positive numbers with min below max',
+          timestamp: new Date()
+        }
+      });
+      return;
+    }
+
+    const windows = requestedWindows(body);
+    if (windows === null) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_TIME_WINDOWS',
+          message: `Give both startSeconds and endSeconds, or up to ${MAX_ANALYSIS_WINDOWS} windows; each must be at least ${MIN_WINDOW_SECONDS} seconds long`,
+          timestamp: new Date()
+        }
+      });
+      return;
+    }
+    if (windows && keep) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_REQUEST',
+          message: 'Only whole-track analysis can be kept as a track; drop keep or the time windows',
+          timestamp: new Date()
+        }
+      });
+      return;
+    }
+    if (keep && !req.user) {
+      res.status(401).json({
+        success: false,
+        error: {
+          code: 'AUTHENTICATION_REQUIRED',
+          message: 'Kept tracks are owned by the caller; authenticate or drop keep',
+          timestamp: new Date()
+        }
+      });
+      return;
+    }
 
     let analysisUrl = audioUrl;
 
-    if (youtubeUrl && !audioUrl) {
+    if (youtubeUrl && !audioUrl && !upload) {
       const videoId = youtubeService.validateAndExtractId(youtubeUrl);
       if (!videoId) {
         res.status(400).json({
@@ -287,37 +424,53 @@ export async function analyzeAudio(
       analysisUrl = downloadInfo.url;
     }
 
-    if (!analysisUrl) {
+    if (!analysisUrl && !upload) {
       res.status(400).json({
         success: false,
         error: {
           code: 'MISSING_AUDIO_SOURCE',
-          message: 'Either youtubeUrl or audioUrl is required',
+          message: 'Either youtubeUrl, audioUrl or an uploaded file is required',
           timestamp: new Date()
         }
       });
       return;
     }
 
-    const analysis = await audioAnalysisService.analyzeFromUrl(analysisUrl);
+    // Embedded genre tags help resolve half/double-time like a search genre does
+    const tags = upload ? await audioAnalysisService.readTags(upload.path) : undefined;
+    const hints = { bpmRange, genres: tags?.genre ? [tags.genre] : undefined };
+    // Hashed once here rather than once per window
+    const contentHash = upload ? await audioAnalysisService.hashFile(upload.path) : undefined;
+    const analyze = (window?: TimeWindow) => upload
+      ? audioAnalysisService.analyzeFile(upload.path, hints, window, allowRecognition, contentHash)
+      : audioAnalysisService.analyzeFromUrl(analysisUrl!, hints, window);
+
+    let data: Record<string, any>;
+
+    if (windows) {
+      // One window at a time; each decodes only its own section
+      const results = [];
+      for (const window of windows) {
+        const analysis = await analyze(window);
+        results.push({ start: window.start, end: window.end, ...filterAnalysis(analysis, analysisType) });
+      }
+      data = { windows: results };
+    } else {
+      const analysis = await analyze();
+      data = filterAnalysis(analysis, analysisType);
 
-    // Filter results based on requested analysis types
-    const filteredAnalysis: any = {};
-    if (analysisType.includes('bpm') && analysis.bpm) filteredAnalysis.bpm = analysis.bpm;
-    if (analysisType.includes('key') && analysis.musicalKey) {
-      filteredAnalysis.musicalKey = analysis.musicalKey;
-      filteredAnalysis.camelotKey = analysis.camelotKey;
-    }
-    if (analysisType.includes('energy') && analysis.energyLevel !== undefined) {
-      filteredAnalysis.energyLevel = analysis.energyLevel;
+      if (upload && tags && keep && req.user) {
+        data.trackId = await keepUpload(upload, tags, analysis, req.user.id);
+      }
     }
-    if (analysisType.includes('waveform') && analysis.waveformPeaks) {
-      filteredAnalysis.waveformPeaks = analysis.waveformPeaks;
+
+    if (tags) {
+      data.metadata = tags;
     }
 
     res.json({
       success: true,
-      data: filteredAnalysis
+      data
     });
 
   } catch (error) {
@@ -330,41 +483,284 @@ export async function analyzeAudio(
         timestamp: new Date()
       }
     });
+  } finally {
+    // Kept uploads have already been moved into storage
+    if (upload) await uploadStorage.discard(upload.path);
   }
 }
 
 /**
- * Save track to database
+ * Keep the analysis types the caller asked for
  */
-async function saveTrackToDatabase(track: Track): Promise<void> {
+function filterAnalysis(analysis: AudioAnalysisResult, analysisType: NonNullable<AnalyzeRequest['analysisType']>): Record<string, any> {
+  const filteredAnalysis: Record<string, any> = {};
+  if (analysisType.includes('bpm') && analysis.bpm) {
+    filteredAnalysis.bpm = analysis.bpm;
+    filteredAnalysis.tempoConfidence = analysis.tempoConfidence;
+    filteredAnalysis.tempoCandidates = analysis.tempoCandidates;
+    filteredAnalysis.tempoCurve = analysis.tempoCurve;
+  }
+  if (analysisType.includes('key') && analysis.musicalKey) {
+    filteredAnalysis.musicalKey = analysis.musicalKey;
+    filteredAnalysis.camelotKey = analysis.camelotKey;
+    filteredAnalysis.keyConfidence = analysis.keyConfidence;
+    filteredAnalysis.keyModulations = analysis.keyModulations;
+    filteredAnalysis.introKey = analysis.introKey;
+    filteredAnalysis.outroKey = analysis.outroKey;
+  }
+  if (analysisType.includes('energy') && analysis.energyLevel !== undefined) {
+    filteredAnalysis.energyLevel = analysis.energyLevel;
+    filteredAnalysis.energyCurve = analysis.energyCurve;
+  }
+  if (analysisType.includes('waveform') && analysis.waveformPeaks) {
+    filteredAnalysis.waveformPeaks = analysis.waveformPeaks;
+    filteredAnalysis.energyCurve = analysis.energyCurve;
+  }
+  if (analysisType.includes('beatgrid') && analysis.beatGrid) {
+    filteredAnalysis.beatGrid = analysis.beatGrid;
+  }
+  if (analysisType.includes('structure') && analysis.structure) {
+    filteredAnalysis.structure = analysis.structure;
+    filteredAnalysis.cuePoints = analysis.cuePoints;
+  }
+  if (analysisType.includes('loudness') && analysis.loudness !== undefined) {
+    filteredAnalysis.loudness = analysis.loudness;
+    filteredAnalysis.loudnessShortTermMax = analysis.loudnessShortTermMax;
+    filteredAnalysis.truePeak = analysis.truePeak;
+    filteredAnalysis.loudnessRange = analysis.loudnessRange;
+  }
+  if (analysisType.includes('descriptors') && analysis.descriptors) {
+    filteredAnalysis.descriptors = analysis.descriptors;
+  }
+  if (analysisType.includes('quality') && analysis.quality) {
+    filteredAnalysis.quality = analysis.quality;
+  }
+  filteredAnalysis.audioStart = analysis.audioStart;
+  filteredAnalysis.audioEnd = analysis.audioEnd;
+  filteredAnalysis.provenance = analysis.provenance;
+  filteredAnalysis.analyzerVersion = analysis.analyzerVersion;
+  filteredAnalysis.providerVersions = analysis.providerVersions;
+  return filteredAnalysis;
+}
+
+/**
+ * The time windows to analyze: `windows`, or one from startSeconds/endSeconds.
+ * Undefined for whole-track analysis, null if the windows are invalid.
+ */
+function requestedWindows(body: AnalyzeRequest): TimeWindow[] | undefined | null {
+  const { startSeconds, endSeconds, windows } = body;
+
+  if (windows !== undefined) {
+    if (!Array.isArray(windows) || windows.length === 0 || windows.length > MAX_ANALYSIS_WINDOWS) return null;
+    if (startSeconds !== undefined || endSeconds !== undefined) return null;
+    return windows.every(isValidWindow) ? windows.map(({ start, end }) => ({ start, end })) : null;
+  }
+
+  if (startSeconds === undefined && endSeconds === undefined) return undefined;
+
+  const window = { start: startSeconds as number, end: endSeconds as number };
+  return isValidWindow(window) ? [window] : null;
+}
+
+function isValidWindow(window: TimeWindow): boolean {
+  if (typeof window !== 'object' || window === null) return false;
+  const { start, end } = window;
+  return Number.isFinite(start) && Number.isFinite(end) && start >= 0 && end - start >= MIN_WINDOW_SECONDS;
+}
+
+/**
+ * Store an analyzed upload as a private track owned by the uploader
+ */
+async function keepUpload(
+  upload: Express.Multer.File,
+  tags: AudioFileTags,
+  analysis: AudioAnalysisResult,
+  userId: string
+): Promise<string | null> {
+  const track: Track = {
+    id: uuidv4(),
+    title: tags.title || path.parse(upload.originalname).name,
+    artist: tags.artist,
+    durationSeconds: tags.durationSeconds !== undefined ? Math.round(tags.durationSeconds) : undefined,
+    genre: tags.genre,
+    ownerUserId: userId,
+    isPrivate: true,
+    analysisStatus: 'completed',
+    analysisCompletedAt: new Date(),
+    createdAt: new Date(),
+    updatedAt: new Date()
+  };
+  applyAnalysis(track, analysis);
+
+  track.storagePath = await uploadStorage.persist(upload.path, track.id);
+  const trackId = await trackService.save(track);
+
+  if (trackId && analysis.waveformPeaks) {
+    await storeWaveformLevels(trackId, analysis.waveformLevels, track.storagePath);
+  }
+  return trackId;
+}
+
+/**
+ * Store a track's waveform zoom levels. Cached analyses come without them:
+ * levels the track already has are then kept, or else measured from `source`.
+ */
+async function storeWaveformLevels(trackId: string, levels: WaveformLevel[] | undefined, source: string): Promise<void> {
+  if (levels) {
+    await trackService.saveWaveformLevels(trackId, levels);
+    return;
+  }
+  if ((await trackService.getWaveformZoomLevels(trackId)).length > 0) return;
+
+  const measured = await audioAnalysisService.waveformLevelsFor(source);
+  if (measured) {
+    await trackService.saveWaveformLevels(trackId, measured);
+  }
+}
+
+/**
+ * Multipart forms send every field as a string: accept comma-separated or
+ * repeated analysisType fields, and bpmRange as JSON or bpmRange[min]/[max]
+ */
+function parseUploadFields(body: Record<string, any>): AnalyzeRequest {
+  const { analysisType, bpmRange, keep, allowRecognition, startSeconds, endSeconds, windows, ...rest } = body;
+  const parsed: AnalyzeRequest = { ...rest };
+
+  if (startSeconds !== undefined) parsed.startSeconds = Number(startSeconds);
+  if (endSeconds !== undefined) parsed.endSeconds = Number(endSeconds);
+  if (windows !== undefined) {
+    const list = parseJsonField(windows);
+    parsed.windows = Array.isArray(list) ? list.map(window => ({ start: Number(window?.start), end: Number(window?.end) })) : list;
+  }
+
+  if (analysisType !== undefined) {
+    parsed.analysisType = (Array.isArray(analysisType) ? analysisType : String(analysisType).split(','))
+      .map(type => type.trim()) as AnalyzeRequest['analysisType'];
+  }
+
+  if (bpmRange !== undefined) {
+    const range = parseJsonField(bpmRange);
+    parsed.bpmRange = {
+      min: range?.min !== undefined ? Number(range.min) : undefined,
+      max: range?.max !== undefined ? Number(range.max) : undefined
+    };
+  }
+
+  parsed.keep = keep === true || keep === 'true';
+  parsed.allowRecognition = allowRecognition === true || allowRecognition === 'true';
+  return parsed;
+}
+
+/**
+ * A multipart field given either as JSON or in bracket notation (already an object)
+ */
+function parseJsonField(value: any): any {
+  if (typeof value !== 'string') return value;
   try {
-    await database.query(`
-      INSERT INTO tracks (
-        id, youtube_id, title, artist, duration_seconds, thumbnail_url, youtube_url, audio_url,
-        bpm, musical_key, camelot_key, energy_level, loudness, tempo_confidence, key_confidence,
-        waveform_peaks, genre, mood, tags, analysis_status, analysis_completed_at,
-        created_at, updated_at
-      ) VALUES (
-        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23
-      ) ON CONFLICT (youtube_id) DO UPDATE SET
-        title = EXCLUDED.title,
-        artist = EXCLUDED.artist,
-        bpm = COALESCE(EXCLUDED.bpm, tracks.bpm),
-        musical_key = COALESCE(EXCLUDED.musical_key, tracks.musical_key),
-        analysis_status = EXCLUDED.analysis_status,
-        updated_at = CURRENT_TIMESTAMP
-    `, [
-      track.id, track.youtubeId, track.title, track.artist, track.durationSeconds,
-      track.thumbnailUrl, track.youtubeUrl, track.audioUrl, track.bpm, track.musicalKey,
-      track.camelotKey, track.energyLevel, track.loudness, track.tempoConfidence,
-      track.keyConfidence, JSON.stringify(track.waveformPeaks), track.genre, track.mood,
-      track.tags || [], track.analysisStatus, track.analysisCompletedAt,
-      track.createdAt, track.updatedAt
-    ]);
-  } catch (error) {
-    logger.error('Failed to save track to database:', error);
-    // Don't throw - this shouldn't break the main request
+    return JSON.parse(value);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Find the track a fingerprint duplicates, checking tracks already processed
+ * in this request before stored ones
+ */
+async function findOriginal(
+  track: Track,
+  fingerprint: string,
+  fingerprinted: { track: Track; fingerprint: string }[]
+): Promise<Track | undefined> {
+  const inRequest = fingerprinted.find(entry => compareFingerprints(entry.fingerprint, fingerprint) >= DUPLICATE_SIMILARITY);
+  if (inRequest) return inRequest.track;
+
+  const [stored] = await trackService.findByFingerprint(fingerprint, {
+    durationSeconds: track.durationSeconds,
+    excludeYoutubeId: track.youtubeId
+  });
+  return stored?.track;
+}
+
+/**
+ * Keep the best-quality upload of each recording, in the position of its
+ * first result, listing the other uploads on it
+ */
+function collapseDuplicates(tracks: Track[]): Track[] {
+  const byRecording = new Map<string, Track>();
+
+  for (const track of tracks) {
+    const key = track.canonicalTrackId || track.id;
+    const kept = byRecording.get(key);
+    if (!kept) {
+      byRecording.set(key, track);
+      continue;
+    }
+
+    const [better, worse] = qualityScore(track) > qualityScore(kept) ? [track, kept] : [kept, track];
+    better.alternateYoutubeIds = [
+      ...(better.alternateYoutubeIds || []),
+      ...(worse.alternateYoutubeIds || []),
+      ...(worse.youtubeId ? [worse.youtubeId] : [])
+    ];
+    worse.alternateYoutubeIds = undefined;
+    byRecording.set(key, better);
   }
+
+  return Array.from(byRecording.values());
+}
+
+/**
+ * Unmeasured uploads rank below any measured one
+ */
+function qualityScore(track: Track): number {
+  return track.quality?.score ?? -1;
+}
+
+/**
+ * Check a track against a minimum quality grade; unmeasured tracks pass
+ */
+function meetsMinQuality(track: Track, minQuality?: QualityGrade): boolean {
+  if (!minQuality || !track.quality) return true;
+  return QUALITY_GRADES.indexOf(track.quality.grade) <= QUALITY_GRADES.indexOf(minQuality);
+}
+
+/**
+ * Check a track's key against the requested keys, in any notation
+ */
+function matchesKeyFilter(track: Track, keys?: string[]): boolean {
+  if (!keys?.length || !track.musicalKey) return true;
+  return keys.some(key => sameKey(key, track.musicalKey));
+}
+
+/**
+ * Check a track against the descriptor filters of a processed query
+ */
+function matchesDescriptorFilters(track: Track, filters: ProcessedQuery['filters']): boolean {
+  const descriptors = track.descriptors;
+  if (!descriptors) return true;
+
+  const inRange = (value: number, range?: { min?: number; max?: number }) =>
+    !range || (value >= (range.min ?? 0) && value <= (range.max ?? 1));
+
+  if (!inRange(descriptors.danceability, filters.danceability)) return false;
+  if (!inRange(descriptors.brightness, filters.brightness)) return false;
+  if (!inRange(descriptors.acousticness, filters.acousticness)) return false;
+  if (filters.vocals === 'instrumental' && descriptors.vocalLikelihood >= 0.5) return false;
+  if (filters.vocals === 'vocal' && descriptors.vocalLikelihood < 0.5) return false;
+
+  return true;
+}
+
+/**
+ * Check an optional client tempo hint
+ */
+function isValidBpmRange(range: AnalyzeRequest['bpmRange']): boolean {
+  if (typeof range !== 'object' || range === null) return false;
+  const { min, max } = range;
+  if (min !== undefined && (!Number.isFinite(min) || min <= 0)) return false;
+  if (max !== undefined && (!Number.isFinite(max) || max <= 0)) return false;
+  return min === undefined || max === undefined || min < max;
 }
 
 /**
@@ -391,7 +787,7 @@ async function logMusicRequest(
       originalQuery,
       JSON.stringify(processedQuery),
       'completed',
-      JSON.stringify({ tracks: tracks.length, processingSteps }),
+      JSON.stringify({ tracks: tracks.length, trackIds: tracks.map(track => track.id), processingSteps }),
       processingSteps.reduce((sum, step) => sum + step.duration, 0),
       new Date(),
       new Date()
@@ -418,13 +814,14 @@ function calculateConfidenceScore(processedQuery: any, tracks: Track[]): number
     score += (analyzedTracks.length / tracks.length) * 0.2;
   }
 
-  // Boost for matching BPM filters
+  // Boost for matching BPM filters; drifting tracks are judged by their median tempo
   if (processedQuery.filters?.bpm && analyzedTracks.length > 0) {
     const matchingBPM = analyzedTracks.filter(t => {
-      if (!t.bpm) return false;
+      const bpm = t.tempoCurve?.median ?? t.bpm;
+      if (!bpm) return false;
       const min = processedQuery.filters.bpm.min || 0;
       const max = processedQuery.filters.bpm.max || 200;
-      return t.bpm >= min && t.bpm <= max;
+      return bpm >= min && bpm <= max;
     });
     if (matchingBPM.length > 0) {
       score += (matchingBPM.length / analyzedTracks.length) * 0.2;
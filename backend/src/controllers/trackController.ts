@@ -0,0 +1,582 @@
+import { Request, Response } from 'express';
+import crypto from 'crypto';
+import { logger } from '@/utils/logger';
+import { redis } from '@/utils/redis';
+import { UUID_PATTERN } from '@/utils/validation';
+import { trackService } from '@/services/tracks';
+import { youtubeService } from '@/services/youtube';
+import { renderingService, WaveformColumn, WaveformRenderOptions } from '@/services/rendering';
+import { convertToCamelot } from '@/services/analysis/musicalKey';
+import { APIResponse, Track } from '@/types';
+
+type RenderQuery = {
+  width?: string;
+  height?: string;
+  start?: string;
+  end?: string;
+  mode?: string;
+  color?: string;
+  lowColor?: string;
+  midColor?: string;
+  highColor?: string;
+  background?: string;
+};
+
+const HEX_COLOR = /^#?([0-9a-f]{6})$/i;
+const IMAGE_CACHE_SECONDS = 86400;
+
+// Most DJ software can pitch ±6% without the key audibly shifting
+const DEFAULT_BPM_TOLERANCE_PERCENT = 6;
+const MAX_BPM_TOLERANCE_PERCENT = 20;
+const DEFAULT_COMPATIBLE_LIMIT = 20;
+const MAX_COMPATIBLE_LIMIT = 100;
+
+/**
+ * Get a stored track with its analysis
+ * GET /v1/tracks/:id
+ */
+export async function getTrack(
+  req: Request<{ id: string }>,
+  res: Response<APIResponse>
+): Promise<void> {
+  try {
+    if (!UUID_PATTERN.test(req.params.id)) {
+      sendError(res, 404, 'TRACK_NOT_FOUND', 'Track not found');
+      return;
+    }
+
+    const track = await trackService.getById(req.params.id, req.user?.id);
+
+    if (!track) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'TRACK_NOT_FOUND',
+          message: 'Track not found',
+          timestamp: new Date()
+        }
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: track
+    });
+
+  } catch (error) {
+    logger.error('Get track error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'TRACK_ERROR',
+        message: 'Failed to get track',
+        timestamp: new Date()
+      }
+    });
+  }
+}
+
+/**
+ * Find other uploads of the same recording by audio fingerprint
+ * GET /v1/tracks/:id/duplicates
+ */
+export async function getTrackDuplicates(
+  req: Request<{ id: string }>,
+  res: Response<APIResponse>
+): Promise<void> {
+  try {
+    if (!UUID_PATTERN.test(req.params.id)) {
+      sendError(res, 404, 'TRACK_NOT_FOUND', 'Track not found');
+      return;
+    }
+
+    const track = await trackService.getById(req.params.id, req.user?.id);
+
+    if (!track) {
+      sendError(res, 404, 'TRACK_NOT_FOUND', 'Track not found');
+      return;
+    }
+
+    const fingerprint = await trackService.getFingerprint(track.id);
+    if (!fingerprint) {
+      sendError(res, 404, 'FINGERPRINT_NOT_AVAILABLE', 'No fingerprint has been computed for this track');
+      return;
+    }
+
+    const matches = await trackService.findByFingerprint(fingerprint, {
+      durationSeconds: track.durationSeconds,
+      excludeYoutubeId: track.youtubeId
+    });
+
+    res.json({
+      success: true,
+      data: {
+        trackId: track.id,
+        canonicalTrackId: track.canonicalTrackId || track.id,
+        duplicates: matches.map(({ track: match, similarity }) => ({
+          id: match.id,
+          youtubeId: match.youtubeId,
+          title: match.title,
+          artist: match.artist,
+          similarity: Math.round(similarity * 1000) / 1000
+        }))
+      }
+    });
+
+  } catch (error) {
+    logger.error('Get duplicates error:', error);
+    sendError(res, 500, 'TRACK_ERROR', 'Failed to find duplicate tracks');
+  }
+}
+
+/**
+ * Find stored tracks that mix well after a track, by Camelot key and tempo
+ * GET /v1/tracks/:id/compatible
+ */
+export async function getCompatibleTracks(
+  req: Request<{ id: string }, APIResponse, {}, { bpmTolerance?: string; energyBoost?: string; limit?: string }>,
+  res: Response<APIResponse>
+): Promise<void> {
+  try {
+    const bpmTolerance = Number(req.query.bpmTolerance ?? DEFAULT_BPM_TOLERANCE_PERCENT);
+    const limit = Number(req.query.limit ?? DEFAULT_COMPATIBLE_LIMIT);
+    const { energyBoost } = req.query;
+
+    if (!Number.isFinite(bpmTolerance) || bpmTolerance < 0 || bpmTolerance > MAX_BPM_TOLERANCE_PERCENT) {
+      sendError(res, 400, 'INVALID_REQUEST', `bpmTolerance must be a percentage between 0 and ${MAX_BPM_TOLERANCE_PERCENT}`);
+      return;
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_COMPATIBLE_LIMIT) {
+      sendError(res, 400, 'INVALID_REQUEST', `limit must be an integer between 1 and ${MAX_COMPATIBLE_LIMIT}`);
+      return;
+    }
+    if (energyBoost !== undefined && energyBoost !== 'true' && energyBoost !== 'false') {
+      sendError(res, 400, 'INVALID_REQUEST', 'energyBoost must be true or false');
+      return;
+    }
+
+    if (!UUID_PATTERN.test(req.params.id)) {
+      sendError(res, 404, 'TRACK_NOT_FOUND', 'Track not found');
+      return;
+    }
+
+    const track = await trackService.getById(req.params.id, req.user?.id);
+
+    if (!track) {
+      sendError(res, 404, 'TRACK_NOT_FOUND', 'Track not found');
+      return;
+    }
+
+    const camelotKey = convertToCamelot(track.outroKey || track.musicalKey);
+    if (!camelotKey || !track.bpm) {
+      sendError(res, 404, 'KEY_NOT_AVAILABLE', 'No key and tempo have been detected for this track');
+      return;
+    }
+
+    const matches = await trackService.findCompatible(track, {
+      bpmTolerance: bpmTolerance / 100,
+      energyBoost: energyBoost === 'true',
+      limit,
+      viewerId: req.user?.id
+    });
+
+    res.json({
+      success: true,
+      data: {
+        trackId: track.id,
+        camelotKey,
+        bpm: track.bpm,
+        compatible: matches.map(({ track: match, ...compatibility }) => ({
+          id: match.id,
+          youtubeId: match.youtubeId,
+          title: match.title,
+          artist: match.artist,
+          bpm: match.bpm,
+          musicalKey: match.introKey || match.musicalKey,
+          camelotKey: convertToCamelot(match.introKey || match.musicalKey),
+          ...compatibility
+        }))
+      }
+    });
+
+  } catch (error) {
+    logger.error('Get compatible tracks error:', error);
+    sendError(res, 500, 'TRACK_ERROR', 'Failed to find compatible tracks');
+  }
+}
+
+/**
+ * Get one zoom level of a track's waveform, optionally limited to a time range
+ * GET /v1/tracks/:id/waveform
+ */
+export async function getTrackWaveform(
+  req: Request<{ id: string }, APIResponse, {}, { pixelsPerSecond?: string; start?: string; end?: string }>,
+  res: Response<APIResponse>
+): Promise<void> {
+  try {
+    const { id } = req.params;
+    const pixelsPerSecond = req.query.pixelsPerSecond === undefined ? 100 : Number(req.query.pixelsPerSecond);
+
+    if (!UUID_PATTERN.test(id)) {
+      sendError(res, 404, 'TRACK_NOT_FOUND', 'Track not found');
+      return;
+    }
+    if (!Number.isInteger(pixelsPerSecond) || pixelsPerSecond <= 0) {
+      sendError(res, 400, 'INVALID_ZOOM_LEVEL', 'pixelsPerSecond must be a positive integer');
+      return;
+    }
+
+    const track = await trackService.getById(id, req.user?.id);
+    if (!track) {
+      sendError(res, 404, 'TRACK_NOT_FOUND', 'Track not found');
+      return;
+    }
+
+    const level = await trackService.getWaveformLevel(id, pixelsPerSecond);
+
+    if (!level) {
+      const available = await trackService.getWaveformZoomLevels(id);
+      res.status(404).json({
+        success: false,
+        error: {
+          code: available.length > 0 ? 'ZOOM_LEVEL_NOT_AVAILABLE' : 'WAVEFORM_NOT_AVAILABLE',
+          message: available.length > 0
+            ? `Zoom level not available. Available pixelsPerSecond values: ${available.join(', ')}`
+            : 'No waveform has been generated for this track',
+          details: { availableZoomLevels: available },
+          timestamp: new Date()
+        }
+      });
+      return;
+    }
+
+    const start = Math.max(0, Number(req.query.start || 0));
+    const end = Math.min(level.duration, Number(req.query.end || level.duration));
+
+    if (Number.isNaN(start) || Number.isNaN(end) || start >= end) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_TIME_RANGE',
+          message: 'start must be before end and within the track',
+          timestamp: new Date()
+        }
+      });
+      return;
+    }
+
+    const from = Math.floor(start * pixelsPerSecond);
+    const to = Math.ceil(end * pixelsPerSecond);
+
+    // The energy curve is coarser than any zoom level, so slice it on its own interval
+    const energyCurve = track.energyCurve;
+    const energyFrom = energyCurve ? Math.floor(start / energyCurve.interval) : 0;
+    const energyTo = energyCurve ? Math.ceil(end / energyCurve.interval) : 0;
+
+    res.json({
+      success: true,
+      data: {
+        trackId: id,
+        pixelsPerSecond,
+        duration: level.duration,
+        start,
+        end,
+        min: level.min.slice(from, to),
+        max: level.max.slice(from, to),
+        low: level.low.slice(from, to),
+        mid: level.mid.slice(from, to),
+        high: level.high.slice(from, to),
+        energyCurve: energyCurve ? {
+          interval: energyCurve.interval,
+          start: energyFrom * energyCurve.interval,
+          energy: energyCurve.energy.slice(energyFrom, energyTo),
+          rms: energyCurve.rms.slice(energyFrom, energyTo),
+          spectralFlux: energyCurve.spectralFlux.slice(energyFrom, energyTo),
+          percussiveDensity: energyCurve.percussiveDensity.slice(energyFrom, energyTo)
+        } : null
+      }
+    });
+
+  } catch (error) {
+    logger.error('Get waveform error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'WAVEFORM_ERROR',
+        message: 'Failed to get waveform',
+        timestamp: new Date()
+      }
+    });
+  }
+}
+
+/**
+ * Render a track's waveform as PNG
+ * GET /v1/tracks/:id/waveform.png
+ */
+export async function getTrackWaveformPng(
+  req: Request<{ id: string }, any, {}, RenderQuery>,
+  res: Response
+): Promise<void> {
+  await renderWaveform(req, res, 'png');
+}
+
+/**
+ * Render a track's waveform as SVG
+ * GET /v1/tracks/:id/waveform.svg
+ */
+export async function getTrackWaveformSvg(
+  req: Request<{ id: string }, any, {}, RenderQuery>,
+  res: Response
+): Promise<void> {
+  await renderWaveform(req, res, 'svg');
+}
+
+/**
+ * Render a track's spectrogram as PNG
+ * GET /v1/tracks/:id/spectrogram.png
+ */
+export async function getTrackSpectrogramPng(
+  req: Request<{ id: string }, any, {}, RenderQuery>,
+  res: Response
+): Promise<void> {
+  try {
+    if (!UUID_PATTERN.test(req.params.id)) {
+      sendError(res, 404, 'TRACK_NOT_FOUND', 'Track not found');
+      return;
+    }
+
+    const track = await trackService.getById(req.params.id, req.user?.id);
+
+    if (!track) {
+      sendError(res, 404, 'TRACK_NOT_FOUND', 'Track not found');
+      return;
+    }
+
+    const width = parseDimension(req.query.width, 1200, 4000);
+    const height = parseDimension(req.query.height, 400, 2000);
+    const range = parseTimeRange(req.query, track.durationSeconds);
+
+    if (width === null || height === null) {
+      sendError(res, 400, 'INVALID_DIMENSIONS', 'width must be 1-4000 and height 1-2000 pixels');
+      return;
+    }
+    if (!range) {
+      sendError(res, 400, 'INVALID_TIME_RANGE', 'start must be before end and within the track');
+      return;
+    }
+
+    const options = { width, height, ...range };
+    const etag = imageEtag(track, 'spectrogram', options);
+    if (isNotModified(req, res, etag)) return;
+
+    const cacheKey = `render:spectrogram:${track.id}:${width}x${height}:${range.start}-${range.end ?? ''}`;
+    const cached = await redis.get(cacheKey);
+    let image: Buffer;
+
+    if (cached) {
+      image = Buffer.from(cached, 'base64');
+    } else {
+      // Stored audio URLs expire, so resolve a fresh one for YouTube tracks
+      const audioUrl = track.youtubeId
+        ? (await youtubeService.getDownloadUrl(track.youtubeId)).url
+        : track.storagePath || track.audioUrl;
+
+      if (!audioUrl) {
+        sendError(res, 404, 'AUDIO_NOT_AVAILABLE', 'No audio source is available for this track');
+        return;
+      }
+
+      image = await renderingService.renderSpectrogramPng(audioUrl, options);
+      await redis.set(cacheKey, image.toString('base64'), IMAGE_CACHE_SECONDS);
+    }
+
+    setImageCacheHeaders(res, etag);
+    res.type('image/png').send(image);
+
+  } catch (error) {
+    logger.error('Render spectrogram error:', error);
+    sendError(res, 500, 'RENDER_ERROR', 'Failed to render spectrogram');
+  }
+}
+
+async function renderWaveform(
+  req: Request<{ id: string }, any, {}, RenderQuery>,
+  res: Response,
+  format: 'png' | 'svg'
+): Promise<void> {
+  try {
+    if (!UUID_PATTERN.test(req.params.id)) {
+      sendError(res, 404, 'TRACK_NOT_FOUND', 'Track not found');
+      return;
+    }
+
+    const track = await trackService.getById(req.params.id, req.user?.id);
+
+    if (!track) {
+      sendError(res, 404, 'TRACK_NOT_FOUND', 'Track not found');
+      return;
+    }
+
+    const parsed = parseWaveformOptions(req.query, track.durationSeconds);
+    if (typeof parsed === 'string') {
+      sendError(res, 400, 'INVALID_RENDER_OPTIONS', parsed);
+      return;
+    }
+
+    const etag = imageEtag(track, `waveform.${format}`, parsed);
+    if (isNotModified(req, res, etag)) return;
+
+    const columns = await loadWaveformColumns(track, parsed);
+    if (!columns) {
+      sendError(res, 404, 'WAVEFORM_NOT_AVAILABLE', 'No waveform has been generated for this track');
+      return;
+    }
+
+    setImageCacheHeaders(res, etag);
+    if (format === 'png') {
+      res.type('image/png').send(renderingService.renderWaveformPng(columns, parsed));
+    } else {
+      res.type('image/svg+xml').send(renderingService.renderWaveformSvg(columns, parsed));
+    }
+
+  } catch (error) {
+    logger.error('Render waveform error:', error);
+    sendError(res, 500, 'RENDER_ERROR', 'Failed to render waveform');
+  }
+}
+
+/**
+ * Pick the coarsest stored zoom level that still has at least one data point
+ * per output pixel, falling back to the overview peaks on the track
+ */
+async function loadWaveformColumns(
+  track: Track,
+  options: WaveformRenderOptions
+): Promise<WaveformColumn[] | null> {
+  const { width, start, end } = options;
+  const zoomLevels = await trackService.getWaveformZoomLevels(track.id);
+
+  if (zoomLevels.length > 0) {
+    const needed = width / (end - start);
+    const pixelsPerSecond = zoomLevels.find(level => level >= needed) ?? zoomLevels[zoomLevels.length - 1];
+    const level = await trackService.getWaveformLevel(track.id, pixelsPerSecond);
+    if (level) {
+      return renderingService.columnsFromLevel(level, start, end, width);
+    }
+  }
+
+  if (track.waveformPeaks && track.waveformPeaks.length > 0 && track.durationSeconds) {
+    return renderingService.columnsFromPeaks(track.waveformPeaks, track.durationSeconds, start, end, width);
+  }
+
+  return null;
+}
+
+function parseWaveformOptions(query: RenderQuery, duration?: number): WaveformRenderOptions | string {
+  const width = parseDimension(query.width, 1200, 4000);
+  const height = parseDimension(query.height, 200, 1000);
+  if (width === null || height === null) {
+    return 'width must be 1-4000 and height 1-1000 pixels';
+  }
+
+  const range = parseTimeRange(query, duration);
+  if (!range || range.end === undefined) {
+    return 'start must be before end and within the track';
+  }
+
+  const mode = query.mode || 'bands';
+  if (mode !== 'peaks' && mode !== 'bands') {
+    return 'mode must be "peaks" or "bands"';
+  }
+
+  const colors = {
+    color: parseColor(query.color, '3b82f6'),
+    lowColor: parseColor(query.lowColor, 'e0245e'),
+    midColor: parseColor(query.midColor, 'f5a623'),
+    highColor: parseColor(query.highColor, '4a90e2')
+  };
+  const background = query.background === 'transparent' ? 'transparent' : parseColor(query.background, 'ffffff');
+
+  if (Object.values(colors).includes(null) || background === null) {
+    return 'Colours must be 6-digit hex values, e.g. ff8800 or #ff8800';
+  }
+
+  return {
+    width,
+    height,
+    start: range.start,
+    end: range.end,
+    mode,
+    color: colors.color!,
+    lowColor: colors.lowColor!,
+    midColor: colors.midColor!,
+    highColor: colors.highColor!,
+    background: background === 'transparent' ? null : background
+  };
+}
+
+function parseDimension(value: string | undefined, fallback: number, max: number): number | null {
+  const parsed = value === undefined ? fallback : Number(value);
+  return Number.isInteger(parsed) && parsed > 0 && parsed <= max ? parsed : null;
+}
+
+function parseTimeRange(query: RenderQuery, duration?: number): { start: number; end?: number } | null {
+  const start = Number(query.start || 0);
+  const end = query.end !== undefined ? Number(query.end) : duration;
+
+  if (Number.isNaN(start) || start < 0) return null;
+  if (end === undefined) return { start };
+  if (Number.isNaN(end) || start >= end || (duration !== undefined && start >= duration)) return null;
+
+  return { start, end: duration !== undefined ? Math.min(end, duration) : end };
+}
+
+function parseColor(value: string | undefined, fallback: string): string | null {
+  if (value === undefined) return fallback;
+  const match = HEX_COLOR.exec(value);
+  return match ? match[1].toLowerCase() : null;
+}
+
+/**
+ * Images only change when the track is re-analysed, so key them on the
+ * track's update time plus the render parameters
+ */
+function imageEtag(track: Track, kind: string, options: object): string {
+  const hash = crypto.createHash('sha1')
+    .update(`${track.id}:${new Date(track.updatedAt).getTime()}:${kind}:${JSON.stringify(options)}`)
+    .digest('hex');
+  return `"${hash}"`;
+}
+
+/**
+ * Images are served to authenticated callers and may show private uploads,
+ * so only the caller's own cache may keep them
+ */
+function setImageCacheHeaders(res: Response, etag: string): void {
+  res.set({
+    'Cache-Control': `private, max-age=${IMAGE_CACHE_SECONDS}`,
+    'ETag': etag
+  });
+  res.vary('Authorization').vary('X-API-Key');
+}
+
+function isNotModified(req: Request<any, any, any, any>, res: Response, etag: string): boolean {
+  if (req.headers['if-none-match'] !== etag) return false;
+
+  setImageCacheHeaders(res, etag);
+  res.status(304).end();
+  return true;
+}
+
+function sendError(res: Response, status: number, code: string, message: string): void {
+  res.status(status).json({
+    success: false,
+    error: {
+      code,
+      message,
+      timestamp: new Date()
+    }
+  });
+}
@@ -14,13 +14,19 @@ import { redis } from '@/utils/redis';
 import { errorHandler } from '@/middleware/errorHandler';
 import { authMiddleware } from '@/middleware/auth';
 import { rateLimitMiddleware } from '@/middleware/rateLimit';
+import { adminMiddleware } from '@/middleware/admin';
+import { backfillService } from '@/services/backfill';
+import { trackService } from '@/services/tracks';
 
 // Routes
 import { healthRoutes } from '@/routes/health';
 import { authRoutes } from '@/routes/auth';
 import { musicRoutes } from '@/routes/music';
+import { trackRoutes } from '@/routes/tracks';
 import { templateRoutes } from '@/routes/templates';
 import { webhookRoutes } from '@/routes/webhooks';
+import { adminRoutes } from '@/routes/admin';
+import { mixRoutes } from '@/routes/mixes';
 
 dotenv.config();
 
@@ -104,8 +110,11 @@ apiRouter.use('/auth', authRoutes);
 
 // Protected routes (require API key)
 apiRouter.use('/music', authMiddleware, rateLimitMiddleware, musicRoutes);
+apiRouter.use('/tracks', authMiddleware, rateLimitMiddleware, trackRoutes);
+apiRouter.use('/mixes', authMiddleware, rateLimitMiddleware, mixRoutes);
 apiRouter.use('/templates', authMiddleware, templateRoutes);
 apiRouter.use('/webhooks', authMiddleware, webhookRoutes);
+apiRouter.use('/admin', authMiddleware, adminMiddleware, adminRoutes);
 
 app.use(`/${API_VERSION}`, apiRouter);
 
@@ -118,6 +127,7 @@ app.get('/', (req, res) => {
     endpoints: {
       health: '/health',
       music: `/${API_VERSION}/music`,
+      tracks: `/${API_VERSION}/tracks`,
       templates: `/${API_VERSION}/templates`,
       auth: `/${API_VERSION}/auth`
     }
@@ -143,7 +153,8 @@ app.use('*', (req, res) => {
 process.on('SIGTERM', async () => {
   logger.info('SIGTERM received, shutting down gracefully');
   
-  // Close database connections
+  // Stop background jobs, then close database connections
+  await backfillService.close();
   await database.close();
   await redis.disconnect();
   
@@ -153,7 +164,8 @@ process.on('SIGTERM', async () => {
 process.on('SIGINT', async () => {
   logger.info('SIGINT received, shutting down gracefully');
   
-  // Close database connections
+  // Stop background jobs, then close database connections
+  await backfillService.close();
   await database.close();
   await redis.disconnect();
   
@@ -171,6 +183,16 @@ async function startServer() {
     await redis.connect();
     logger.info('Redis connected successfully');
     
+    // Start background re-analysis jobs
+    backfillService.initialize();
+
+    // Tracks stored before keys were normalized cannot be found by key until this has run
+    trackService.backfillCamelotKeys()
+      .then(count => {
+        if (count > 0) logger.info(`Backfilled Camelot keys of ${count} tracks`);
+      })
+      .catch(error => logger.error('Camelot key backfill failed:', error));
+    
     // Start HTTP server
     app.listen(PORT, () => {
       logger.info(`🚀 MusicForge API server running on port ${PORT}`);
@@ -0,0 +1,27 @@
+import { Request, Response, NextFunction } from 'express';
+import { APIResponse } from '@/types';
+
+/**
+ * Allow only users listed in ADMIN_USER_IDS (comma-separated). Runs after authMiddleware.
+ */
+export function adminMiddleware(
+  req: Request,
+  res: Response<APIResponse>,
+  next: NextFunction
+): void {
+  const adminIds = (process.env.ADMIN_USER_IDS || '').split(',').map(id => id.trim()).filter(Boolean);
+
+  if (!req.user || !adminIds.includes(req.user.id)) {
+    res.status(403).json({
+      success: false,
+      error: {
+        code: 'FORBIDDEN',
+        message: 'Admin access required',
+        timestamp: new Date()
+      }
+    });
+    return;
+  }
+
+  next();
+}
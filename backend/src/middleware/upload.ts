@@ -0,0 +1,114 @@
+import { Request, Response, NextFunction } from 'express';
+import multer from 'multer';
+import os from 'os';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { APIResponse } from '@/types';
+
+// Upload size limits based on user plans
+const UPLOAD_LIMITS: Record<string, number> = {
+  free: 20 * 1024 * 1024, // 20 MB
+  starter: 50 * 1024 * 1024, // 50 MB
+  pro: 200 * 1024 * 1024, // 200 MB
+  scale: 500 * 1024 * 1024, // 500 MB
+  enterprise: 1024 * 1024 * 1024 // 1 GB
+};
+
+// Accepted formats by extension; browsers and DAWs disagree on MIME types, so those are not checked
+const AUDIO_EXTENSIONS = ['.mp3', '.wav', '.flac', '.aiff', '.aif', '.m4a'];
+
+const UPLOAD_FIELD = 'file';
+const UNSUPPORTED_FORMAT = 'UNSUPPORTED_AUDIO_FORMAT';
+
+const storage = multer.diskStorage({
+  destination: os.tmpdir(),
+  filename: (req, file, callback) => {
+    callback(null, `musicforge-${uuidv4()}${path.extname(file.originalname).toLowerCase()}`);
+  }
+});
+
+// One multer instance per plan, since limits are fixed when it is created
+const uploaders = new Map<string, ReturnType<typeof multer>>();
+
+function uploaderFor(plan: string): ReturnType<typeof multer> {
+  let uploader = uploaders.get(plan);
+
+  if (!uploader) {
+    uploader = multer({
+      storage,
+      limits: { fileSize: UPLOAD_LIMITS[plan], files: 1 },
+      fileFilter: (req, file, callback) => {
+        if (AUDIO_EXTENSIONS.includes(path.extname(file.originalname).toLowerCase())) {
+          callback(null, true);
+        } else {
+          callback(Object.assign(new Error('Unsupported audio format'), { code: UNSUPPORTED_FORMAT }));
+        }
+      }
+    });
+    uploaders.set(plan, uploader);
+  }
+
+  return uploader;
+}
+
+/**
+ * Accept a single audio file in the `file` field of a multipart request.
+ * Requests that are not multipart pass through untouched.
+ */
+export function audioUploadMiddleware(
+  req: Request,
+  res: Response<APIResponse>,
+  next: NextFunction
+): void {
+  const plan = req.user?.plan && UPLOAD_LIMITS[req.user.plan] ? req.user.plan : 'free';
+  const limit = UPLOAD_LIMITS[plan];
+
+  uploaderFor(plan).single(UPLOAD_FIELD)(req, res, (error: any) => {
+    if (error instanceof multer.MulterError && error.code === 'LIMIT_FILE_SIZE') {
+      res.status(413).json({
+        success: false,
+        error: {
+          code: 'FILE_TOO_LARGE',
+          message: `Uploads are limited to ${limit / (1024 * 1024)} MB on the ${plan} plan.`,
+          details: {
+            limit,
+            upgradeUrl: 'https://musicforge.io/pricing'
+          },
+          timestamp: new Date()
+        }
+      });
+      return;
+    }
+
+    if (error?.code === UNSUPPORTED_FORMAT) {
+      res.status(415).json({
+        success: false,
+        error: {
+          code: UNSUPPORTED_FORMAT,
+          message: `Upload one of: ${AUDIO_EXTENSIONS.join(', ')}`,
+          timestamp: new Date()
+        }
+      });
+      return;
+    }
+
+    if (error instanceof multer.MulterError) {
+      res.status(400).json({
+        success: false,
+        error: {
+          code: 'INVALID_UPLOAD',
+          message: `Send one audio file in the "${UPLOAD_FIELD}" field`,
+          timestamp: new Date()
+        }
+      });
+      return;
+    }
+
+    if (error) {
+      next(error);
+      return;
+    }
+
+    next();
+  });
+}
@@ -0,0 +1,62 @@
+import { Router } from 'express';
+import { startBackfill, getBackfillProgress } from '@/controllers/adminController';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /admin/backfill:
+ *   post:
+ *     summary: Start analysis backfill
+ *     description: Re-analyze stored tracks produced by an older analyzer version, and optionally those whose analysis failed. Tracks are processed one at a time at a throttled rate. Admin only.
+ *     tags: [Admin]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               targetVersion:
+ *                 type: string
+ *                 description: Re-analyze tracks below this analyzer version, at most the current one (the default)
+ *                 example: "1.0.0"
+ *               includeFailed:
+ *                 type: boolean
+ *                 default: true
+ *                 description: Also retry tracks whose analysis failed
+ *               limit:
+ *                 type: integer
+ *                 minimum: 1
+ *                 description: Maximum number of tracks to queue (defaults to BACKFILL_BATCH_SIZE)
+ *     responses:
+ *       202:
+ *         description: Backfill queued; returns its initial progress
+ *       400:
+ *         description: Invalid targetVersion, includeFailed or limit
+ *       403:
+ *         description: Not an admin
+ *       409:
+ *         description: A backfill is already in progress
+ */
+router.post('/backfill', startBackfill);
+
+/**
+ * @swagger
+ * /admin/backfill:
+ *   get:
+ *     summary: Get backfill progress
+ *     description: Completed, failed and remaining re-analyses of the latest backfill run. Admin only.
+ *     tags: [Admin]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Backfill progress
+ *       403:
+ *         description: Not an admin
+ */
+router.get('/backfill', getBackfillProgress);
+
+export { router as adminRoutes };
@@ -0,0 +1,152 @@
+import { Router } from 'express';
+import { orderSet, createTransition, getPitchShifts, getMix } from '@/controllers/mixController';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /mixes/order:
+ *   post:
+ *     summary: Order tracks for a DJ set
+ *     description: Find a play order that rewards smooth BPM steps, Camelot-compatible key moves and the chosen energy shape. Takes track IDs or the ID of a POST /music/process request. Pinned first and last tracks stay in place.
+ *     tags: [Mixes]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               trackIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 minItems: 2
+ *                 maxItems: 100
+ *                 description: Tracks to order (or give requestId)
+ *               requestId:
+ *                 type: string
+ *                 description: Order the tracks returned by this music request (meta.requestId of POST /music/process)
+ *               energyShape:
+ *                 type: string
+ *                 enum: [flat, build_up, peak_and_release]
+ *                 default: flat
+ *               firstTrackId:
+ *                 type: string
+ *                 description: Track that must open the set
+ *               lastTrackId:
+ *                 type: string
+ *                 description: Track that must close the set
+ *     responses:
+ *       200:
+ *         description: Ordered tracks with a score and warnings (key clashes, tempo jumps, energy jumps) per transition
+ *       400:
+ *         description: Invalid request
+ *       404:
+ *         description: Tracks or music request not found
+ */
+router.post('/order', orderSet);
+
+/**
+ * @swagger
+ * /mixes/transitions:
+ *   post:
+ *     summary: Plan a transition
+ *     description: Propose ways to mix from one track into another, from their stored beat grids, structure and energy. Each plan gives phrase-aligned mix-out and mix-in points, the length in bars and when to swap the bass. The plans are saved as a mix and a mix.created webhook is sent.
+ *     tags: [Mixes]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - outgoingTrackId
+ *               - incomingTrackId
+ *             properties:
+ *               outgoingTrackId:
+ *                 type: string
+ *                 description: Track playing now
+ *               incomingTrackId:
+ *                 type: string
+ *                 description: Track to mix in
+ *     responses:
+ *       201:
+ *         description: Saved mix with the tempo adjustment for the incoming track, plans (best first) and warnings
+ *       400:
+ *         description: Invalid request
+ *       404:
+ *         description: Track not found, or no beat grid detected for it
+ */
+router.post('/transitions', createTransition);
+
+/**
+ * @swagger
+ * /mixes/pitch-shifts:
+ *   post:
+ *     summary: Suggest pitch shifts
+ *     description: For a pair of tracks or an ordered set, the smallest pitch shift (with key lock) of each incoming track that makes its transition harmonically compatible, with the resulting key, the beatmatched BPM and the percentage pitch change. A shifted track keeps its shift for its next transition.
+ *     tags: [Mixes]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - trackIds
+ *             properties:
+ *               trackIds:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 minItems: 2
+ *                 maxItems: 100
+ *                 description: Tracks in play order
+ *               maxSemitones:
+ *                 type: integer
+ *                 minimum: 0
+ *                 maximum: 2
+ *                 default: 2
+ *                 description: Largest pitch shift to suggest, either way
+ *     responses:
+ *       200:
+ *         description: One suggestion per transition, with warnings where no shift in range works
+ *       400:
+ *         description: Invalid request
+ *       404:
+ *         description: Track not found
+ */
+router.post('/pitch-shifts', getPitchShifts);
+
+/**
+ * @swagger
+ * /mixes/{id}:
+ *   get:
+ *     summary: Get mix
+ *     description: Get a saved mix's transition plans
+ *     tags: [Mixes]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Mix ID
+ *     responses:
+ *       200:
+ *         description: Mix details
+ *       404:
+ *         description: Mix not found
+ */
+router.get('/:id', getMix);
+
+export { router as mixRoutes };
@@ -1,5 +1,6 @@
 import { Router } from 'express';
 import { processMusic, searchMusic, analyzeAudio } from '@/controllers/musicController';
+import { audioUploadMiddleware } from '@/middleware/upload';
 
 const router = Router();
 
@@ -40,6 +41,10 @@ const router = Router();
  *                 enum: [standard, high]
  *                 default: standard
  *                 description: Audio download quality
+ *               minQuality:
+ *                 type: string
+ *                 enum: [A, B, C, D, F]
+ *                 description: Drop tracks whose source quality grade is below this. Re-uploads of the same song are ranked by quality regardless.
  *     responses:
  *       200:
  *         description: Successfully processed music request
@@ -131,7 +136,7 @@ router.get('/search', searchMusic);
  * /music/analyze:
  *   post:
  *     summary: Analyze specific audio
- *     description: Analyze BPM, key, energy, and waveform of specific audio
+ *     description: Analyze BPM, key, energy, loudness, waveform, perceptual descriptors and source quality of specific audio. Audio can be given by URL or uploaded as a file (mp3, wav, flac, aiff, m4a; size limit depends on plan).
  *     tags: [Music]
  *     security:
  *       - ApiKeyAuth: []
@@ -153,12 +158,75 @@ router.get('/search', searchMusic);
  *                 type: array
  *                 items:
  *                   type: string
- *                   enum: [bpm, key, energy, waveform]
+ *                   enum: [bpm, key, energy, waveform, loudness, beatgrid, structure, descriptors, quality]
  *                 default: [bpm, key, energy, waveform]
  *                 description: Types of analysis to perform
+ *               bpmRange:
+ *                 type: object
+ *                 description: Expected tempo, used to resolve half/double-time detections
+ *                 properties:
+ *                   min:
+ *                     type: number
+ *                     example: 160
+ *                   max:
+ *                     type: number
+ *                     example: 180
+ *               startSeconds:
+ *                 type: number
+ *                 description: Analyze only from here (requires endSeconds)
+ *                 example: 1800
+ *               endSeconds:
+ *                 type: number
+ *                 description: Analyze only up to here (requires startSeconds)
+ *                 example: 1920
+ *               windows:
+ *                 type: array
+ *                 maxItems: 20
+ *                 description: Several sections to analyze separately, each at least 10 seconds long
+ *                 items:
+ *                   type: object
+ *                   properties:
+ *                     start:
+ *                       type: number
+ *                     end:
+ *                       type: number
+ *         multipart/form-data:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - file
+ *             properties:
+ *               file:
+ *                 type: string
+ *                 format: binary
+ *                 description: Audio file (mp3, wav, flac, aiff, m4a)
+ *               analysisType:
+ *                 type: string
+ *                 description: Comma-separated analysis types
+ *                 example: "bpm,key,energy"
+ *               bpmRange:
+ *                 type: string
+ *                 description: Expected tempo as JSON
+ *                 example: '{"min":160,"max":180}'
+ *               keep:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Store the file as a private track owned by you; its ID is returned as trackId. Not available with time windows.
+ *               allowRecognition:
+ *                 type: boolean
+ *                 default: false
+ *                 description: Also send the file to remote recognition services (AudD). Off by default so unreleased audio stays on our servers.
+ *               startSeconds:
+ *                 type: number
+ *               endSeconds:
+ *                 type: number
+ *               windows:
+ *                 type: string
+ *                 description: Sections to analyze as JSON
+ *                 example: '[{"start":0,"end":60},{"start":600,"end":660}]'
  *     responses:
  *       200:
- *         description: Analysis results
+ *         description: Analysis results. With startSeconds/endSeconds or windows, data.windows holds one result per window, with times on the track's clock. Uploads also return the file's embedded tags as metadata.
  *         content:
  *           application/json:
  *             schema:
@@ -168,7 +236,13 @@ router.get('/search', searchMusic);
  *                   type: boolean
  *                 data:
  *                   $ref: '#/components/schemas/AudioAnalysis'
+ *       401:
+ *         description: keep was set without authenticating
+ *       413:
+ *         description: File exceeds the plan's upload limit
+ *       415:
+ *         description: Unsupported audio format
  */
-router.post('/analyze', analyzeAudio);
+router.post('/analyze', audioUploadMiddleware, analyzeAudio);
 
 export { router as musicRoutes };
@@ -0,0 +1,394 @@
+import { Router } from 'express';
+import {
+  getTrack,
+  getTrackDuplicates,
+  getCompatibleTracks,
+  getTrackWaveform,
+  getTrackWaveformPng,
+  getTrackWaveformSvg,
+  getTrackSpectrogramPng
+} from '@/controllers/trackController';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /tracks/{id}:
+ *   get:
+ *     summary: Get track
+ *     description: Get a stored track with its audio analysis
+ *     tags: [Tracks]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Track ID
+ *     responses:
+ *       200:
+ *         description: Track details
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 success:
+ *                   type: boolean
+ *                 data:
+ *                   $ref: '#/components/schemas/Track'
+ *       404:
+ *         description: Track not found
+ */
+router.get('/:id', getTrack);
+
+/**
+ * @swagger
+ * /tracks/{id}/duplicates:
+ *   get:
+ *     summary: Find duplicate uploads
+ *     description: Find other stored uploads of the same recording (official video, lyric video, re-uploads) by audio fingerprint
+ *     tags: [Tracks]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Track ID
+ *     responses:
+ *       200:
+ *         description: Matching tracks with their fingerprint similarity (0-1), most similar first
+ *       404:
+ *         description: Track or fingerprint not available
+ */
+router.get('/:id/duplicates', getTrackDuplicates);
+
+/**
+ * @swagger
+ * /tracks/{id}/compatible:
+ *   get:
+ *     summary: Find harmonically compatible tracks
+ *     description: Find stored tracks that mix well after this one. The track's outro key is matched against each candidate's intro key on the Camelot wheel (same key, one step either way, relative major/minor, or optionally an energy-boost jump), and tempos must be within the tolerance at normal, half or double time.
+ *     tags: [Tracks]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Track ID
+ *       - in: query
+ *         name: bpmTolerance
+ *         schema:
+ *           type: number
+ *           default: 6
+ *           maximum: 20
+ *         description: Allowed tempo difference in percent
+ *       - in: query
+ *         name: energyBoost
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: Also include energy-boost jumps (+2 or +7 on the wheel)
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           default: 20
+ *           maximum: 100
+ *     responses:
+ *       200:
+ *         description: Compatible tracks, best first, each with a 0-1 score, the key and tempo relation, and the reason
+ *       404:
+ *         description: Track not found, or its key and tempo are not known
+ */
+router.get('/:id/compatible', getCompatibleTracks);
+
+/**
+ * @swagger
+ * /tracks/{id}/waveform:
+ *   get:
+ *     summary: Get track waveform
+ *     description: Get min/max and low/mid/high band waveform data at one zoom level, optionally for a time range
+ *     tags: [Tracks]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Track ID
+ *       - in: query
+ *         name: pixelsPerSecond
+ *         schema:
+ *           type: integer
+ *           enum: [50, 100, 400]
+ *           default: 100
+ *         description: Zoom level
+ *       - in: query
+ *         name: start
+ *         schema:
+ *           type: number
+ *           default: 0
+ *         description: Range start in seconds
+ *       - in: query
+ *         name: end
+ *         schema:
+ *           type: number
+ *         description: Range end in seconds (defaults to the end of the track)
+ *     responses:
+ *       200:
+ *         description: Waveform data. min/max range -127..127, band energies 0..255. Includes the energy curve (0-1 per interval) for the same range, starting at `energyCurve.start` seconds.
+ *       400:
+ *         description: pixelsPerSecond is not a positive integer, or the time range is invalid
+ *       404:
+ *         description: Track or zoom level not available
+ */
+router.get('/:id/waveform', getTrackWaveform);
+
+/**
+ * @swagger
+ * /tracks/{id}/waveform.png:
+ *   get:
+ *     summary: Render track waveform as PNG
+ *     description: Render the stored waveform analysis as a PNG image. Responses carry Cache-Control and ETag headers.
+ *     tags: [Tracks]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Track ID
+ *       - in: query
+ *         name: width
+ *         schema:
+ *           type: integer
+ *           default: 1200
+ *           maximum: 4000
+ *       - in: query
+ *         name: height
+ *         schema:
+ *           type: integer
+ *           default: 200
+ *           maximum: 1000
+ *       - in: query
+ *         name: start
+ *         schema:
+ *           type: number
+ *           default: 0
+ *         description: Range start in seconds
+ *       - in: query
+ *         name: end
+ *         schema:
+ *           type: number
+ *         description: Range end in seconds (defaults to the end of the track)
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [bands, peaks]
+ *           default: bands
+ *         description: Colour by low/mid/high band energy, or draw a single colour
+ *       - in: query
+ *         name: color
+ *         schema:
+ *           type: string
+ *           default: 3b82f6
+ *         description: Hex colour used in peaks mode
+ *       - in: query
+ *         name: lowColor
+ *         schema:
+ *           type: string
+ *           default: e0245e
+ *       - in: query
+ *         name: midColor
+ *         schema:
+ *           type: string
+ *           default: f5a623
+ *       - in: query
+ *         name: highColor
+ *         schema:
+ *           type: string
+ *           default: 4a90e2
+ *       - in: query
+ *         name: background
+ *         schema:
+ *           type: string
+ *           default: ffffff
+ *         description: Hex colour or "transparent"
+ *     responses:
+ *       200:
+ *         description: Rendered waveform
+ *         content:
+ *           image/png:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       304:
+ *         description: Not modified
+ *       400:
+ *         description: Invalid render options
+ *       404:
+ *         description: Track or waveform not available
+ */
+router.get('/:id/waveform.png', getTrackWaveformPng);
+
+/**
+ * @swagger
+ * /tracks/{id}/waveform.svg:
+ *   get:
+ *     summary: Render track waveform as SVG
+ *     description: Render the stored waveform analysis as an SVG image. Responses carry Cache-Control and ETag headers.
+ *     tags: [Tracks]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Track ID
+ *       - in: query
+ *         name: width
+ *         schema:
+ *           type: integer
+ *           default: 1200
+ *           maximum: 4000
+ *       - in: query
+ *         name: height
+ *         schema:
+ *           type: integer
+ *           default: 200
+ *           maximum: 1000
+ *       - in: query
+ *         name: start
+ *         schema:
+ *           type: number
+ *           default: 0
+ *         description: Range start in seconds
+ *       - in: query
+ *         name: end
+ *         schema:
+ *           type: number
+ *         description: Range end in seconds (defaults to the end of the track)
+ *       - in: query
+ *         name: mode
+ *         schema:
+ *           type: string
+ *           enum: [bands, peaks]
+ *           default: bands
+ *         description: Colour by low/mid/high band energy, or draw a single colour
+ *       - in: query
+ *         name: color
+ *         schema:
+ *           type: string
+ *           default: 3b82f6
+ *         description: Hex colour used in peaks mode
+ *       - in: query
+ *         name: lowColor
+ *         schema:
+ *           type: string
+ *           default: e0245e
+ *       - in: query
+ *         name: midColor
+ *         schema:
+ *           type: string
+ *           default: f5a623
+ *       - in: query
+ *         name: highColor
+ *         schema:
+ *           type: string
+ *           default: 4a90e2
+ *       - in: query
+ *         name: background
+ *         schema:
+ *           type: string
+ *           default: ffffff
+ *         description: Hex colour or "transparent"
+ *     responses:
+ *       200:
+ *         description: Rendered waveform
+ *         content:
+ *           image/svg+xml:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       304:
+ *         description: Not modified
+ *       400:
+ *         description: Invalid render options
+ *       404:
+ *         description: Track or waveform not available
+ */
+router.get('/:id/waveform.svg', getTrackWaveformSvg);
+
+/**
+ * @swagger
+ * /tracks/{id}/spectrogram.png:
+ *   get:
+ *     summary: Render track spectrogram as PNG
+ *     description: Render a spectrogram of the track audio with FFmpeg. Responses carry Cache-Control and ETag headers.
+ *     tags: [Tracks]
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Track ID
+ *       - in: query
+ *         name: width
+ *         schema:
+ *           type: integer
+ *           default: 1200
+ *           maximum: 4000
+ *       - in: query
+ *         name: height
+ *         schema:
+ *           type: integer
+ *           default: 400
+ *           maximum: 2000
+ *       - in: query
+ *         name: start
+ *         schema:
+ *           type: number
+ *           default: 0
+ *         description: Range start in seconds
+ *       - in: query
+ *         name: end
+ *         schema:
+ *           type: number
+ *         description: Range end in seconds (defaults to the end of the track)
+ *     responses:
+ *       200:
+ *         description: Rendered spectrogram
+ *         content:
+ *           image/png:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       304:
+ *         description: Not modified
+ *       400:
+ *         description: Invalid render options
+ *       404:
+ *         description: Track or audio not available
+ */
+router.get('/:id/spectrogram.png', getTrackSpectrogramPng);
+
+export { router as trackRoutes };
@@ -0,0 +1,172 @@
+import { OnsetEnvelope } from './tempo';
+import { mean, median, round } from './dsp';
+
+// Penalty weight for deviating from the beat period, as in librosa's tracker
+const TIGHTNESS = 100;
+
+export interface BeatTrackingResult {
+  beats: number[]; // seconds
+  downbeats: number[]; // seconds
+  beatsPerBar: number;
+}
+
+/**
+ * Dynamic-programming beat tracker (Ellis, 2007): chooses the sequence of
+ * onset peaks that best fits the given tempo, then picks the bar phase.
+ * `lowEnvelope` is a low-band onset envelope used to locate downbeats.
+ */
+export function trackBeats(
+  envelope: OnsetEnvelope,
+  bpm: number,
+  lowEnvelope?: OnsetEnvelope,
+  beatsPerBar: number = 4
+): BeatTrackingResult | null {
+  const period = (60 * envelope.frameRate) / bpm;
+  const localScore = smoothOnsets(envelope.values, period);
+  const n = localScore.length;
+  if (n < period * 4) return null;
+
+  const cumulative = new Float64Array(n);
+  const backlink = new Int32Array(n).fill(-1);
+  const minStep = Math.round(period / 2);
+  const maxStep = Math.round(period * 2);
+
+  for (let t = 0; t < n; t++) {
+    let best = -Infinity;
+    let bestIndex = -1;
+    for (let tau = Math.max(0, t - maxStep); tau <= t - minStep; tau++) {
+      const deviation = Math.log((t - tau) / period);
+      const candidate = cumulative[tau] - TIGHTNESS * deviation * deviation;
+      if (candidate > best) {
+        best = candidate;
+        bestIndex = tau;
+      }
+    }
+    cumulative[t] = localScore[t] + Math.max(0, best);
+    backlink[t] = best > 0 ? bestIndex : -1;
+  }
+
+  // Start from the strongest ending within the last beat period
+  let last = n - 1;
+  for (let t = Math.max(0, n - Math.ceil(period)); t < n; t++) {
+    if (cumulative[t] > cumulative[last]) last = t;
+  }
+
+  const frames: number[] = [];
+  for (let t = last; t >= 0; t = backlink[t]) {
+    frames.unshift(t);
+  }
+
+  const trimmed = trimWeakBeats(frames, localScore);
+  if (trimmed.length < beatsPerBar) return null;
+
+  const toSeconds = (frame: number) => round(frame / envelope.frameRate + envelope.timeOffset, 3);
+  const phase = downbeatPhase(trimmed, lowEnvelope ?? envelope, beatsPerBar);
+
+  return {
+    beats: trimmed.map(toSeconds),
+    downbeats: trimmed.filter((_, index) => index % beatsPerBar === phase).map(toSeconds),
+    beatsPerBar
+  };
+}
+
+/**
+ * Normalize the envelope and smooth it with a Gaussian a fraction of a beat wide
+ */
+function smoothOnsets(values: Float32Array, period: number): Float64Array {
+  const deviation = Math.sqrt(mean(Array.from(values, value => value * value))) || 1;
+  const sigma = period / 32;
+  const radius = Math.max(1, Math.round(period / 2));
+  const kernel: number[] = [];
+  for (let i = -radius; i <= radius; i++) {
+    kernel.push(Math.exp(-0.5 * (i / sigma) ** 2));
+  }
+
+  const result = new Float64Array(values.length);
+  for (let t = 0; t < values.length; t++) {
+    let sum = 0;
+    for (let i = -radius; i <= radius; i++) {
+      const index = t + i;
+      if (index >= 0 && index < values.length) sum += (values[index] / deviation) * kernel[i + radius];
+    }
+    result[t] = sum;
+  }
+  return result;
+}
+
+/**
+ * Re-grid beats after a tempo correction: new beats are interpolated between
+ * the tracked ones, and downbeats restart from the beat nearest the first
+ * tracked downbeat
+ */
+export function rescaleBeats(
+  result: BeatTrackingResult,
+  multiplier: number
+): BeatTrackingResult {
+  const { beats, beatsPerBar } = result;
+  const rescaled: number[] = [];
+
+  for (let k = 0; k / multiplier <= beats.length - 1; k++) {
+    const position = k / multiplier;
+    const index = Math.floor(position);
+    const fraction = position - index;
+    rescaled.push(index + 1 < beats.length
+      ? round(beats[index] + fraction * (beats[index + 1] - beats[index]), 3)
+      : beats[index]);
+  }
+
+  if (rescaled.length === 0 || result.downbeats.length === 0) {
+    return { beats: rescaled, downbeats: [], beatsPerBar };
+  }
+
+  const anchor = result.downbeats[0];
+  let first = 0;
+  rescaled.forEach((time, index) => {
+    if (Math.abs(time - anchor) < Math.abs(rescaled[first] - anchor)) first = index;
+  });
+  first %= beatsPerBar;
+
+  return {
+    beats: rescaled,
+    downbeats: rescaled.filter((_, index) => index >= first && (index - first) % beatsPerBar === 0),
+    beatsPerBar
+  };
+}
+
+/**
+ * Drop beats in leading and trailing passages without rhythmic content
+ */
+function trimWeakBeats(frames: number[], localScore: Float64Array): number[] {
+  const threshold = 0.25 * median(frames.map(frame => localScore[frame]));
+  let start = 0;
+  let end = frames.length;
+  while (start < end && localScore[frames[start]] < threshold) start++;
+  while (end > start && localScore[frames[end - 1]] < threshold) end--;
+  return frames.slice(start, end);
+}
+
+/**
+ * Pick which beat in each bar is the downbeat by comparing the average
+ * onset strength at every bar position
+ */
+function downbeatPhase(frames: number[], envelope: OnsetEnvelope, beatsPerBar: number): number {
+  const strength = new Array<number>(beatsPerBar).fill(0);
+  const counts = new Array<number>(beatsPerBar).fill(0);
+
+  frames.forEach((frame, index) => {
+    // Take the strongest value within ~50 ms to absorb small timing errors
+    const radius = Math.max(1, Math.round(envelope.frameRate * 0.05));
+    let peak = 0;
+    for (let t = frame - radius; t <= frame + radius; t++) {
+      if (t >= 0 && t < envelope.values.length) peak = Math.max(peak, envelope.values[t]);
+    }
+    strength[index % beatsPerBar] += peak;
+    counts[index % beatsPerBar]++;
+  });
+
+  let best = 0;
+  for (let phase = 1; phase < beatsPerBar; phase++) {
+    if (strength[phase] / (counts[phase] || 1) > strength[best] / (counts[best] || 1)) best = phase;
+  }
+  return best;
+}
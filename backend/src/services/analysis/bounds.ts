@@ -0,0 +1,132 @@
+import { PcmAudio, round } from './dsp';
+import { OnsetEnvelope, normalizedAutocorrelation } from './tempo';
+
+// Level below which audio counts as silence, as in ffmpeg's silencedetect default
+const SILENCE_DB = -50;
+
+const SUBFRAME_SECONDS = 0.02;
+const BLOCK_SECONDS = 1;
+
+// Music must continue this long before it counts as the start (or end) of the track
+const MIN_MUSIC_BLOCKS = 3;
+
+// Speech has frequent gaps between words; music is sustained or rhythmic
+const GAP_DB = 25;
+const SPEECH_GAP_FRACTION = 0.25;
+const RHYTHM_WINDOW_SECONDS = 3;
+const MIN_RHYTHM_PERIODICITY = 0.3;
+
+export interface AudioBounds {
+  audioStart: number; // seconds
+  audioEnd: number; // seconds
+}
+
+/**
+ * Find where the music starts and ends, skipping leading and trailing silence
+ * and non-music such as spoken intros or end-card voice-overs. A block is
+ * non-music if it is silent, or if it is gappy like speech without any
+ * rhythmic periodicity. The bounds are refined to the first and last sound.
+ */
+export function detectAudioBounds(audio: PcmAudio, envelope: OnsetEnvelope): AudioBounds {
+  const { samples, sampleRate } = audio;
+  const duration = samples.length / sampleRate;
+  const subframeLength = Math.round(SUBFRAME_SECONDS * sampleRate);
+  const subframesPerBlock = Math.round(BLOCK_SECONDS / SUBFRAME_SECONDS);
+
+  const levels: number[] = [];
+  for (let start = 0; start + subframeLength <= samples.length; start += subframeLength) {
+    let power = 0;
+    for (let i = start; i < start + subframeLength; i++) power += samples[i] * samples[i];
+    levels.push(10 * Math.log10(power / subframeLength + 1e-12));
+  }
+
+  const blockCount = Math.floor(levels.length / subframesPerBlock);
+  if (blockCount < MIN_MUSIC_BLOCKS) {
+    return { audioStart: 0, audioEnd: round(duration, 3) };
+  }
+
+  const music: boolean[] = [];
+  for (let block = 0; block < blockCount; block++) {
+    const blockLevels = levels.slice(block * subframesPerBlock, (block + 1) * subframesPerBlock);
+    const power = blockLevels.reduce((sum, db) => sum + 10 ** (db / 10), 0) / blockLevels.length;
+    const isSilent = 10 * Math.log10(power + 1e-12) < SILENCE_DB;
+
+    const loudest = Math.max(...blockLevels);
+    const gaps = blockLevels.filter(db => db < loudest - GAP_DB).length / blockLevels.length;
+    // Rhythm is measured both before and after the block, so a block of speech
+    // next to the music is not carried by the music's beat
+    const periodicity = Math.min(
+      rhythmicPeriodicity(envelope, (block + 1) * BLOCK_SECONDS - RHYTHM_WINDOW_SECONDS),
+      rhythmicPeriodicity(envelope, block * BLOCK_SECONDS)
+    );
+    const speechLike = gaps > SPEECH_GAP_FRACTION && periodicity < MIN_RHYTHM_PERIODICITY;
+
+    music.push(!isSilent && !speechLike);
+  }
+
+  const isRun = (block: number) => music.slice(block, block + MIN_MUSIC_BLOCKS).filter(Boolean).length === MIN_MUSIC_BLOCKS;
+  let first = -1;
+  for (let block = 0; block + MIN_MUSIC_BLOCKS <= blockCount && first < 0; block++) {
+    if (isRun(block)) first = block;
+  }
+  let last = -1;
+  for (let block = blockCount - MIN_MUSIC_BLOCKS; block >= 0 && last < 0; block--) {
+    if (isRun(block)) last = block + MIN_MUSIC_BLOCKS - 1;
+  }
+
+  if (first < 0 || last < 0) {
+    return { audioStart: 0, audioEnd: round(duration, 3) };
+  }
+
+  // Sound can begin inside the block before the run (a fade-in, or a first
+  // hit late in a mostly silent block), so follow it back while it is
+  // continuous, then skip any silence at the start of the run
+  let startFrame = first * subframesPerBlock;
+  const earliest = Math.max(0, startFrame - subframesPerBlock);
+  while (startFrame > earliest && levels[startFrame - 1] >= SILENCE_DB) startFrame--;
+  while (startFrame < levels.length - 1 && levels[startFrame] < SILENCE_DB) startFrame++;
+
+  let endFrame = (last + 1) * subframesPerBlock - 1;
+  const latest = Math.min(levels.length - 1, endFrame + subframesPerBlock);
+  while (endFrame < latest && levels[endFrame + 1] >= SILENCE_DB) endFrame++;
+  while (endFrame > startFrame && levels[endFrame] < SILENCE_DB) endFrame--;
+
+  return {
+    audioStart: round(startFrame * SUBFRAME_SECONDS, 3),
+    audioEnd: round(Math.min(duration, (endFrame + 1) * SUBFRAME_SECONDS), 3)
+  };
+}
+
+/**
+ * Limit an onset envelope to a time range, keeping times on the track's clock
+ */
+export function sliceEnvelope(envelope: OnsetEnvelope, bounds: AudioBounds): OnsetEnvelope {
+  const from = Math.max(0, Math.round((bounds.audioStart - envelope.timeOffset) * envelope.frameRate));
+  const to = Math.min(envelope.values.length, Math.round((bounds.audioEnd - envelope.timeOffset) * envelope.frameRate));
+  return {
+    values: envelope.values.subarray(from, Math.max(from, to)),
+    frameRate: envelope.frameRate,
+    timeOffset: envelope.timeOffset + from / envelope.frameRate
+  };
+}
+
+/**
+ * Strongest autocorrelation at beat-like periods (60-240 BPM) in a window
+ * of the onset envelope starting at `time`
+ */
+function rhythmicPeriodicity(envelope: OnsetEnvelope, time: number): number {
+  const start = Math.round((time - envelope.timeOffset) * envelope.frameRate);
+  const length = Math.round(RHYTHM_WINDOW_SECONDS * envelope.frameRate);
+  const window = envelope.values.subarray(Math.max(0, start), Math.min(envelope.values.length, start + length));
+
+  const minLag = Math.round(0.25 * envelope.frameRate);
+  const maxLag = Math.round(1 * envelope.frameRate);
+  if (window.length < maxLag * 2) return 0;
+
+  const ac = normalizedAutocorrelation(window, maxLag);
+  if (!ac) return 0;
+
+  let best = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) best = Math.max(best, ac[lag]);
+  return best;
+}
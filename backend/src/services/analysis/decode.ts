@@ -0,0 +1,103 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { Writable } from 'stream';
+import { logger } from '@/utils/logger';
+import { TimeWindow } from '@/types';
+import { PcmAudio } from './dsp';
+
+// Sample rate used for in-process analysis (mono)
+export const ANALYSIS_SAMPLE_RATE = 22050;
+
+/**
+ * Decode audio to mono 32-bit float PCM, optionally only `maxSeconds` from
+ * `startSeconds` on. Seeking happens before decoding, so a short section of
+ * a long file is cheap.
+ */
+export async function decodePcm(
+  audioUrl: string,
+  sampleRate: number = ANALYSIS_SAMPLE_RATE,
+  maxSeconds?: number,
+  startSeconds: number = 0
+): Promise<PcmAudio> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    const command = ffmpeg(audioUrl);
+
+    if (startSeconds > 0) {
+      command.seekInput(startSeconds);
+    }
+    if (maxSeconds !== undefined) {
+      command.duration(maxSeconds);
+    }
+
+    command
+      .noVideo()
+      .audioChannels(1)
+      .audioFrequency(sampleRate)
+      .format('f32le')
+      .on('end', () => {
+        const data = Buffer.concat(chunks);
+        const sampleCount = Math.floor(data.length / 4);
+        // Copy into a fresh, aligned buffer before viewing it as floats
+        const aligned = data.buffer.slice(data.byteOffset, data.byteOffset + sampleCount * 4);
+        resolve({ samples: new Float32Array(aligned), sampleRate });
+      })
+      .on('error', (error) => {
+        logger.error('FFmpeg decode error:', error);
+        reject(error);
+      })
+      .pipe(new Writable({
+        write: (chunk: Buffer, _encoding, callback) => {
+          chunks.push(chunk);
+          callback();
+        }
+      }));
+  });
+}
+
+/**
+ * Decode audio to interleaved 32-bit float PCM and hand it to `onSamples` in
+ * whole sample frames as it arrives, for meters that need not hold the whole
+ * signal. With a window, only that section is decoded.
+ */
+export async function streamPcm(
+  audioUrl: string,
+  options: { sampleRate: number; channels: number; window?: TimeWindow },
+  onSamples: (samples: Float32Array) => void
+): Promise<void> {
+  const { sampleRate, channels, window } = options;
+  const frameBytes = 4 * channels;
+
+  return new Promise((resolve, reject) => {
+    let remainder = Buffer.alloc(0);
+    const command = ffmpeg(audioUrl);
+
+    if (window) {
+      command.seekInput(window.start).duration(window.end - window.start);
+    }
+
+    command
+      .noVideo()
+      .audioChannels(channels)
+      .audioFrequency(sampleRate)
+      .format('f32le')
+      .on('end', () => resolve())
+      .on('error', (error) => {
+        logger.error('FFmpeg decode error:', error);
+        reject(error);
+      })
+      .pipe(new Writable({
+        write: (chunk: Buffer, _encoding, callback) => {
+          // Chunks are not aligned to whole sample frames
+          const data = remainder.length > 0 ? Buffer.concat([remainder, chunk]) : chunk;
+          const usable = data.length - (data.length % frameBytes);
+          const samples = new Float32Array(usable / 4);
+          for (let i = 0; i < samples.length; i++) {
+            samples[i] = data.readFloatLE(i * 4);
+          }
+          onSamples(samples);
+          remainder = Buffer.from(data.subarray(usable));
+          callback();
+        }
+      }));
+  });
+}
@@ -0,0 +1,192 @@
+import { AudioDescriptors } from '@/types';
+import { PcmAudio, stft, parabolicPeak, mean, clamp, round } from './dsp';
+import { OnsetEnvelope } from './tempo';
+
+const FRAME_SIZE = 2048;
+const HOP_SIZE = 1024;
+
+// Frames quieter than this (dB relative to full scale) are ignored
+const SILENCE_DB = -60;
+
+const BRIGHTNESS_CUTOFF_HZ = 1500;
+const SUB_BASS_HZ = [20, 100];
+const VOCAL_BAND_HZ = [300, 3000];
+const VOCAL_PITCH_HZ = [150, 1000];
+
+// A voice-like frame has a peaky (harmonic) spectrum carrying a good share of the energy
+const VOICED_MAX_FLATNESS = 0.3;
+const VOICED_MIN_BAND_RATIO = 0.2;
+
+// Pitch movement between frames typical of singing (vibrato, glides), in semitones.
+// Synth and instrument notes hold steady; melodic leaps are larger.
+const GLIDE_SEMITONES = [0.1, 2];
+
+// Danceable tempo range, with a falloff outside it in octaves
+const DANCE_TEMPO_RANGE = [90, 135];
+const DANCE_TEMPO_FALLOFF_OCTAVES = 0.3;
+
+interface FrameFeatures {
+  db: number;
+  centroid: number;
+  highRatio: number;
+  subBassRatio: number;
+  voiced: boolean;
+  pitch: number; // Hz, dominant peak in the vocal pitch range
+}
+
+/**
+ * Perceptual descriptors from the decoded signal. These are heuristics on
+ * spectral shape and rhythm, not trained classifiers, so treat the 0-1 values
+ * as likelihoods rather than labels.
+ */
+export function computeDescriptors(
+  audio: PcmAudio,
+  envelope: OnsetEnvelope,
+  beats?: number[],
+  bpm?: number
+): AudioDescriptors | null {
+  const frames = computeFrameFeatures(audio).filter(frame => frame.db > SILENCE_DB);
+  if (frames.length === 0) return null;
+
+  const regularity = beatRegularity(beats);
+  const centroid = mean(frames.map(frame => frame.centroid));
+
+  return {
+    spectralCentroid: Math.round(centroid),
+    brightness: round(mean(frames.map(frame => frame.highRatio)), 2),
+    danceability: round(danceability(envelope, beats, bpm, regularity), 2),
+    acousticness: round(acousticness(frames, regularity), 2),
+    vocalLikelihood: round(vocalLikelihood(frames), 2)
+  };
+}
+
+function computeFrameFeatures(audio: PcmAudio): FrameFeatures[] {
+  const binHz = audio.sampleRate / FRAME_SIZE;
+  const bin = (hz: number) => Math.min(FRAME_SIZE / 2, Math.round(hz / binHz));
+  const frames: FrameFeatures[] = [];
+
+  stft(audio.samples, FRAME_SIZE, HOP_SIZE, (magnitudes) => {
+    let power = 0;
+    let weighted = 0;
+    let magnitudeSum = 0;
+    let high = 0;
+    let subBass = 0;
+    for (let k = 1; k < magnitudes.length; k++) {
+      const p = magnitudes[k] * magnitudes[k];
+      power += p;
+      weighted += k * binHz * magnitudes[k];
+      magnitudeSum += magnitudes[k];
+      if (k >= bin(BRIGHTNESS_CUTOFF_HZ)) high += p;
+      if (k >= bin(SUB_BASS_HZ[0]) && k <= bin(SUB_BASS_HZ[1])) subBass += p;
+    }
+
+    // Hann window: a full-scale sine has a peak magnitude of FRAME_SIZE / 4
+    const db = 10 * Math.log10(power / (FRAME_SIZE / 4) ** 2 + 1e-12);
+
+    let vocalPower = 0;
+    let logSum = 0;
+    let linearSum = 0;
+    const [vocalLo, vocalHi] = [bin(VOCAL_BAND_HZ[0]), bin(VOCAL_BAND_HZ[1])];
+    for (let k = vocalLo; k <= vocalHi; k++) {
+      vocalPower += magnitudes[k] * magnitudes[k];
+      logSum += Math.log(magnitudes[k] + 1e-12);
+      linearSum += magnitudes[k];
+    }
+    const count = vocalHi - vocalLo + 1;
+    const flatness = linearSum > 0 ? Math.exp(logSum / count) / (linearSum / count) : 1;
+
+    let peak = bin(VOCAL_PITCH_HZ[0]);
+    for (let k = peak; k <= bin(VOCAL_PITCH_HZ[1]); k++) {
+      if (magnitudes[k] > magnitudes[peak]) peak = k;
+    }
+
+    frames.push({
+      db,
+      centroid: magnitudeSum > 0 ? weighted / magnitudeSum : 0,
+      highRatio: power > 0 ? high / power : 0,
+      subBassRatio: power > 0 ? subBass / power : 0,
+      voiced: flatness < VOICED_MAX_FLATNESS && power > 0 && vocalPower / power > VOICED_MIN_BAND_RATIO,
+      pitch: parabolicPeak(magnitudes, peak) * binHz
+    });
+  });
+
+  return frames;
+}
+
+/**
+ * 1 for perfectly even beat spacing, falling to 0 at 10% interval variation
+ */
+function beatRegularity(beats?: number[]): number {
+  if (!beats || beats.length < 8) return 0;
+
+  const intervals = beats.slice(1).map((beat, i) => beat - beats[i]);
+  const avg = mean(intervals);
+  const deviation = Math.sqrt(mean(intervals.map(interval => (interval - avg) ** 2)));
+  return clamp(1 - deviation / avg / 0.1, 0, 1);
+}
+
+/**
+ * Beat strength (onsets on the beat versus everywhere), regularity and a
+ * danceable tempo
+ */
+function danceability(envelope: OnsetEnvelope, beats: number[] | undefined, bpm: number | undefined, regularity: number): number {
+  if (!beats || beats.length < 8 || !bpm) return 0;
+
+  const onBeat = beats.map(time => {
+    const frame = Math.round((time - envelope.timeOffset) * envelope.frameRate);
+    let peak = 0;
+    for (let t = frame - 2; t <= frame + 2; t++) {
+      if (t >= 0 && t < envelope.values.length) peak = Math.max(peak, envelope.values[t]);
+    }
+    return peak;
+  });
+  const overall = mean(envelope.values);
+  const strength = overall > 0 ? clamp((mean(onBeat) / overall - 1) / 3, 0, 1) : 0;
+
+  let octaves = 0;
+  if (bpm < DANCE_TEMPO_RANGE[0]) octaves = Math.log2(DANCE_TEMPO_RANGE[0] / bpm);
+  if (bpm > DANCE_TEMPO_RANGE[1]) octaves = Math.log2(bpm / DANCE_TEMPO_RANGE[1]);
+  const tempoFit = Math.exp(-0.5 * (octaves / DANCE_TEMPO_FALLOFF_OCTAVES) ** 2);
+
+  return 0.4 * strength + 0.4 * regularity + 0.2 * tempoFit;
+}
+
+/**
+ * Electronic production tends to have heavy sub-bass, little level variation
+ * (compression) and machine-exact timing; acoustic recordings the opposite
+ */
+function acousticness(frames: FrameFeatures[], regularity: number): number {
+  const subBass = clamp((mean(frames.map(frame => frame.subBassRatio)) - 0.1) / 0.3, 0, 1);
+
+  // Level variation between ~1 s blocks of frames
+  const blockSize = 10;
+  const blocks: number[] = [];
+  for (let i = 0; i + blockSize <= frames.length; i += blockSize) {
+    blocks.push(mean(frames.slice(i, i + blockSize).map(frame => frame.db)));
+  }
+  const avg = mean(blocks);
+  const spread = blocks.length > 1 ? Math.sqrt(mean(blocks.map(db => (db - avg) ** 2))) : 0;
+  const compression = clamp(1 - (spread - 2) / 5, 0, 1);
+
+  return clamp(1 - (0.4 * subBass + 0.3 * compression + 0.3 * regularity), 0, 1);
+}
+
+/**
+ * Share of frames that look voiced, scaled by how often the pitch moves the
+ * way a singing voice does
+ */
+function vocalLikelihood(frames: FrameFeatures[]): number {
+  const voicedFraction = frames.filter(frame => frame.voiced).length / frames.length;
+
+  let pairs = 0;
+  let glides = 0;
+  for (let i = 1; i < frames.length; i++) {
+    if (!frames[i].voiced || !frames[i - 1].voiced) continue;
+    pairs++;
+    const semitones = Math.abs(12 * Math.log2(frames[i].pitch / frames[i - 1].pitch));
+    if (semitones >= GLIDE_SEMITONES[0] && semitones <= GLIDE_SEMITONES[1]) glides++;
+  }
+  const glideRatio = pairs > 0 ? glides / pairs : 0;
+
+  return clamp(voicedFraction * 1.5, 0, 1) * clamp(glideRatio / 0.4, 0, 1);
+}
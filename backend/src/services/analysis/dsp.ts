@@ -0,0 +1,253 @@
+// Signal processing primitives shared by the local audio analyzers
+
+export interface PcmAudio {
+  samples: Float32Array; // mono, normalized to [-1, 1]
+  sampleRate: number;
+}
+
+interface FftPlan {
+  size: number;
+  window: Float64Array;
+  reversed: Uint32Array;
+  cos: Float64Array;
+  sin: Float64Array;
+}
+
+const fftPlans = new Map<number, FftPlan>();
+
+/**
+ * Build (and memoize) window, bit-reversal and twiddle tables for a radix-2 FFT
+ */
+function getFftPlan(size: number): FftPlan {
+  const existing = fftPlans.get(size);
+  if (existing) return existing;
+
+  if (size < 2 || (size & (size - 1)) !== 0) {
+    throw new Error(`FFT size must be a power of two, got ${size}`);
+  }
+
+  const bits = Math.log2(size);
+  const reversed = new Uint32Array(size);
+  for (let i = 0; i < size; i++) {
+    let r = 0;
+    for (let b = 0; b < bits; b++) {
+      r = (r << 1) | ((i >> b) & 1);
+    }
+    reversed[i] = r;
+  }
+
+  const cos = new Float64Array(size / 2);
+  const sin = new Float64Array(size / 2);
+  for (let i = 0; i < size / 2; i++) {
+    cos[i] = Math.cos((2 * Math.PI * i) / size);
+    sin[i] = -Math.sin((2 * Math.PI * i) / size);
+  }
+
+  const plan = { size, window: hannWindow(size), reversed, cos, sin };
+  fftPlans.set(size, plan);
+  return plan;
+}
+
+/**
+ * Periodic Hann window
+ */
+export function hannWindow(size: number): Float64Array {
+  const window = new Float64Array(size);
+  for (let i = 0; i < size; i++) {
+    window[i] = 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / size);
+  }
+  return window;
+}
+
+/**
+ * In-place iterative radix-2 FFT
+ */
+export function fft(re: Float64Array, im: Float64Array): void {
+  const plan = getFftPlan(re.length);
+  const n = plan.size;
+
+  for (let i = 0; i < n; i++) {
+    const j = plan.reversed[i];
+    if (j > i) {
+      let tmp = re[i]; re[i] = re[j]; re[j] = tmp;
+      tmp = im[i]; im[i] = im[j]; im[j] = tmp;
+    }
+  }
+
+  for (let len = 2; len <= n; len <<= 1) {
+    const half = len >> 1;
+    const step = n / len;
+    for (let start = 0; start < n; start += len) {
+      for (let k = 0; k < half; k++) {
+        const wr = plan.cos[k * step];
+        const wi = plan.sin[k * step];
+        const a = start + k;
+        const b = a + half;
+        const tr = re[b] * wr - im[b] * wi;
+        const ti = re[b] * wi + im[b] * wr;
+        re[b] = re[a] - tr;
+        im[b] = im[a] - ti;
+        re[a] += tr;
+        im[a] += ti;
+      }
+    }
+  }
+}
+
+/**
+ * Short-time Fourier transform. Frames are streamed to the callback instead of
+ * being kept in memory; the magnitude buffer is reused between calls.
+ * Returns the number of frames processed.
+ */
+export function stft(
+  samples: Float32Array,
+  frameSize: number,
+  hopSize: number,
+  onFrame: (magnitudes: Float64Array, frameIndex: number) => void
+): number {
+  const plan = getFftPlan(frameSize);
+  const re = new Float64Array(frameSize);
+  const im = new Float64Array(frameSize);
+  const magnitudes = new Float64Array(frameSize / 2 + 1);
+
+  let frameIndex = 0;
+  for (let start = 0; start + frameSize <= samples.length; start += hopSize) {
+    for (let i = 0; i < frameSize; i++) {
+      re[i] = samples[start + i] * plan.window[i];
+      im[i] = 0;
+    }
+    fft(re, im);
+    for (let k = 0; k < magnitudes.length; k++) {
+      magnitudes[k] = Math.sqrt(re[k] * re[k] + im[k] * im[k]);
+    }
+    onFrame(magnitudes, frameIndex++);
+  }
+
+  return frameIndex;
+}
+
+/**
+ * Unnormalized autocorrelation for lags 0..maxLag
+ */
+export function autocorrelate(signal: ArrayLike<number>, maxLag: number): Float64Array {
+  const lags = Math.min(maxLag, signal.length - 1);
+  const result = new Float64Array(lags + 1);
+  for (let lag = 0; lag <= lags; lag++) {
+    let sum = 0;
+    for (let i = lag; i < signal.length; i++) {
+      sum += signal[i] * signal[i - lag];
+    }
+    result[lag] = sum;
+  }
+  return result;
+}
+
+/**
+ * Sub-sample peak position from a parabola through three neighbouring values
+ */
+export function parabolicPeak(values: ArrayLike<number>, index: number): number {
+  if (index <= 0 || index >= values.length - 1) return index;
+  const left = values[index - 1];
+  const center = values[index];
+  const right = values[index + 1];
+  const denominator = left - 2 * center + right;
+  if (denominator === 0) return index;
+  const offset = (0.5 * (left - right)) / denominator;
+  return Math.abs(offset) <= 1 ? index + offset : index;
+}
+
+/**
+ * Centered moving average with the given window length
+ */
+export function movingAverage(values: ArrayLike<number>, windowLength: number): Float64Array {
+  const half = Math.max(1, Math.floor(windowLength / 2));
+  const result = new Float64Array(values.length);
+  let sum = 0;
+  let lo = 0;
+  let hi = -1;
+
+  for (let i = 0; i < values.length; i++) {
+    const start = Math.max(0, i - half);
+    const end = Math.min(values.length - 1, i + half);
+    while (hi < end) sum += values[++hi];
+    while (lo < start) sum -= values[lo++];
+    result[i] = sum / (hi - lo + 1);
+  }
+
+  return result;
+}
+
+export function mean(values: ArrayLike<number>): number {
+  if (values.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < values.length; i++) sum += values[i];
+  return sum / values.length;
+}
+
+export function median(values: ArrayLike<number>): number {
+  if (values.length === 0) return 0;
+  const sorted = Array.from(values).sort((a, b) => a - b);
+  const mid = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+export function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+export function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Second-order IIR section (RBJ audio EQ cookbook), processed sample by sample
+ */
+export class Biquad {
+  private b0 = 0;
+  private b1 = 0;
+  private b2 = 0;
+  private a1 = 0;
+  private a2 = 0;
+  private z1 = 0;
+  private z2 = 0;
+
+  static lowPass(frequency: number, sampleRate: number, q: number = Math.SQRT1_2): Biquad {
+    const { cos, alpha } = Biquad.prototypeTerms(frequency, sampleRate, q);
+    return new Biquad().setCoefficients((1 - cos) / 2, 1 - cos, (1 - cos) / 2, 1 + alpha, -2 * cos, 1 - alpha);
+  }
+
+  static highPass(frequency: number, sampleRate: number, q: number = Math.SQRT1_2): Biquad {
+    const { cos, alpha } = Biquad.prototypeTerms(frequency, sampleRate, q);
+    return new Biquad().setCoefficients((1 + cos) / 2, -(1 + cos), (1 + cos) / 2, 1 + alpha, -2 * cos, 1 - alpha);
+  }
+
+  /**
+   * Band-pass with 0 dB peak gain at the centre frequency
+   */
+  static bandPass(frequency: number, sampleRate: number, q: number): Biquad {
+    const { cos, alpha } = Biquad.prototypeTerms(frequency, sampleRate, q);
+    return new Biquad().setCoefficients(alpha, 0, -alpha, 1 + alpha, -2 * cos, 1 - alpha);
+  }
+
+  private static prototypeTerms(frequency: number, sampleRate: number, q: number) {
+    const w0 = (2 * Math.PI * frequency) / sampleRate;
+    return { cos: Math.cos(w0), alpha: Math.sin(w0) / (2 * q) };
+  }
+
+  process(x: number): number {
+    const y = this.b0 * x + this.z1;
+    this.z1 = this.b1 * x - this.a1 * y + this.z2;
+    this.z2 = this.b2 * x - this.a2 * y;
+    return y;
+  }
+
+  private setCoefficients(b0: number, b1: number, b2: number, a0: number, a1: number, a2: number): this {
+    this.b0 = b0 / a0;
+    this.b1 = b1 / a0;
+    this.b2 = b2 / a0;
+    this.a1 = a1 / a0;
+    this.a2 = a2 / a0;
+    return this;
+  }
+}
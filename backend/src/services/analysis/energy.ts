@@ -0,0 +1,90 @@
+import { EnergyCurve } from '@/types';
+import { PcmAudio, mean, clamp, round } from './dsp';
+import { OnsetEnvelope } from './tempo';
+
+const ENERGY_INTERVAL_SECONDS = 2;
+
+// RMS levels mapped to 0 and 1. Mastered dance music sits around -8 dBFS RMS.
+const RMS_FLOOR_DB = -40;
+const RMS_CEILING_DB = -6;
+
+// Onsets per second that count as fully dense (sixteenths at ~128 BPM)
+const MAX_ONSET_RATE = 8;
+
+// Minimum envelope peak (relative to the strongest onset) counted as an onset
+const ONSET_THRESHOLD = 0.2;
+
+// Onset flux is relative to the track; this mean envelope value maps to 1
+const FLUX_CEILING = 0.15;
+
+const RMS_WEIGHT = 0.5;
+const FLUX_WEIGHT = 0.2;
+const DENSITY_WEIGHT = 0.3;
+
+/**
+ * Energy per fixed interval from loudness (RMS), onset strength (spectral
+ * flux) and how many percussive onsets occur, each scaled to 0-1
+ */
+export function computeEnergyCurve(audio: PcmAudio, envelope: OnsetEnvelope): EnergyCurve | null {
+  const { samples, sampleRate } = audio;
+  const intervalSamples = Math.round(ENERGY_INTERVAL_SECONDS * sampleRate);
+  const count = Math.floor(samples.length / intervalSamples);
+  if (count === 0) return null;
+
+  const peaks = onsetPeaks(envelope.values, ONSET_THRESHOLD);
+  const curve: EnergyCurve = {
+    interval: ENERGY_INTERVAL_SECONDS,
+    energy: [],
+    rms: [],
+    spectralFlux: [],
+    percussiveDensity: []
+  };
+
+  for (let i = 0; i < count; i++) {
+    let sumSquares = 0;
+    for (let n = i * intervalSamples; n < (i + 1) * intervalSamples; n++) {
+      sumSquares += samples[n] * samples[n];
+    }
+    const db = 10 * Math.log10(sumSquares / intervalSamples + 1e-12);
+    const rms = clamp((db - RMS_FLOOR_DB) / (RMS_CEILING_DB - RMS_FLOOR_DB), 0, 1);
+
+    const from = Math.max(0, Math.floor((i * ENERGY_INTERVAL_SECONDS - envelope.timeOffset) * envelope.frameRate));
+    const to = Math.min(envelope.values.length, Math.floor(((i + 1) * ENERGY_INTERVAL_SECONDS - envelope.timeOffset) * envelope.frameRate));
+    const flux = to > from ? clamp(mean(envelope.values.subarray(from, to)) / FLUX_CEILING, 0, 1) : 0;
+
+    const onsets = peaks.filter(frame => frame >= from && frame < to).length;
+    const density = clamp(onsets / ENERGY_INTERVAL_SECONDS / MAX_ONSET_RATE, 0, 1);
+
+    curve.rms.push(round(rms, 3));
+    curve.spectralFlux.push(round(flux, 3));
+    curve.percussiveDensity.push(round(density, 3));
+    curve.energy.push(round(RMS_WEIGHT * rms + FLUX_WEIGHT * flux + DENSITY_WEIGHT * density, 3));
+  }
+
+  return curve;
+}
+
+/**
+ * Overall energy score. Weighted towards the busier parts of the track so a
+ * long ambient intro does not drag a peak-time track down.
+ */
+export function overallEnergy(curve: EnergyCurve): number {
+  if (curve.energy.length === 0) return 0;
+
+  const sorted = [...curve.energy].sort((a, b) => a - b);
+  const upperQuartile = sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * 0.75))];
+  return round(clamp(0.6 * upperQuartile + 0.4 * mean(sorted), 0, 1), 2);
+}
+
+/**
+ * Frames where the envelope has a local maximum above the threshold
+ */
+function onsetPeaks(values: Float32Array, threshold: number): number[] {
+  const peaks: number[] = [];
+  for (let i = 1; i < values.length - 1; i++) {
+    if (values[i] >= threshold && values[i] > values[i - 1] && values[i] >= values[i + 1]) {
+      peaks.push(i);
+    }
+  }
+  return peaks;
+}
@@ -0,0 +1,139 @@
+import { PcmAudio, stft } from './dsp';
+import { ANALYSIS_SAMPLE_RATE } from './decode';
+
+const FRAME_SIZE = 4096;
+const HOP_SIZE = 1024;
+
+// Fingerprints are only comparable when computed at the analysis sample rate
+const FRAME_RATE = ANALYSIS_SAMPLE_RATE / HOP_SIZE;
+
+// 33 log-spaced bands give 32 band differences, one bit each (Haitsma & Kalker, 2002)
+const BAND_COUNT = 33;
+const MIN_FREQ = 300;
+const MAX_FREQ = 2000;
+
+// Re-uploads often add or trim an intro; offsets up to this are searched
+const MAX_OFFSET_SECONDS = 20;
+
+// Frame stride used when scanning offsets
+const COARSE_STRIDE = 4;
+
+// Too little overlap makes the bit error rate meaningless
+const MIN_OVERLAP_SECONDS = 20;
+
+// Fingerprints at least this similar are the same recording
+export const DUPLICATE_SIMILARITY = 0.7;
+
+export const FINGERPRINT_SECONDS = 120;
+
+// Silent frames give all-zero or all-one sub-fingerprints that every track shares
+const DEGENERATE_WORDS = new Set([0, 0xffffffff]);
+
+/**
+ * Fingerprint as 32-bit sub-fingerprints, one per frame, each bit the sign of
+ * the change over time of the energy difference between neighbouring bands.
+ * Returned as base64 of the little-endian words.
+ */
+export function computeFingerprint(audio: PcmAudio): string | null {
+  const edges = Array.from({ length: BAND_COUNT + 1 }, (_, i) =>
+    Math.round((MIN_FREQ * (MAX_FREQ / MIN_FREQ) ** (i / BAND_COUNT) * FRAME_SIZE) / audio.sampleRate)
+  );
+
+  const words: number[] = [];
+  let previous: Float64Array | null = null;
+
+  stft(audio.samples, FRAME_SIZE, HOP_SIZE, (magnitudes) => {
+    const bands = new Float64Array(BAND_COUNT);
+    for (let b = 0; b < BAND_COUNT; b++) {
+      for (let k = edges[b]; k < Math.max(edges[b + 1], edges[b] + 1); k++) {
+        bands[b] += magnitudes[k] * magnitudes[k];
+      }
+    }
+
+    if (previous) {
+      let word = 0;
+      for (let b = 0; b < BAND_COUNT - 1; b++) {
+        const change = (bands[b] - bands[b + 1]) - (previous[b] - previous[b + 1]);
+        if (change > 0) word |= 1 << b;
+      }
+      words.push(word >>> 0);
+    }
+    previous = bands;
+  });
+
+  if (words.length === 0) return null;
+
+  const buffer = Buffer.alloc(words.length * 4);
+  words.forEach((word, i) => buffer.writeUInt32LE(word, i * 4));
+  return buffer.toString('base64');
+}
+
+/**
+ * Similarity (1 - bit error rate) at the best alignment of two fingerprints;
+ * around 0.5 for unrelated audio. Offsets are first scanned on a sample of
+ * frames, then the best one is scored on every frame.
+ */
+export function compareFingerprints(a: string, b: string): number {
+  const wordsA = decode(a);
+  const wordsB = decode(b);
+  const maxOffset = Math.round(MAX_OFFSET_SECONDS * FRAME_RATE);
+  const minOverlap = Math.round(MIN_OVERLAP_SECONDS * FRAME_RATE);
+
+  let bestOffset: number | null = null;
+  let bestScore = 0;
+  for (let offset = -maxOffset; offset <= maxOffset; offset++) {
+    const score = similarityAt(wordsA, wordsB, offset, minOverlap, COARSE_STRIDE);
+    if (score > bestScore) {
+      bestScore = score;
+      bestOffset = offset;
+    }
+  }
+  if (bestOffset === null) return 0;
+
+  let best = 0;
+  for (let offset = bestOffset - COARSE_STRIDE; offset <= bestOffset + COARSE_STRIDE; offset++) {
+    best = Math.max(best, similarityAt(wordsA, wordsB, offset, minOverlap, 1));
+  }
+  return best;
+}
+
+/**
+ * Distinct sub-fingerprints as signed 32-bit integers, for an indexed lookup of
+ * candidates. Re-encodes of one recording share many sub-fingerprints exactly
+ * (Haitsma & Kalker, 2002); unrelated recordings share almost none.
+ */
+export function fingerprintHashes(fingerprint: string): number[] {
+  const hashes = new Set<number>();
+  for (const word of decode(fingerprint)) {
+    if (!DEGENERATE_WORDS.has(word)) hashes.add(word | 0);
+  }
+  return Array.from(hashes);
+}
+
+function similarityAt(a: Uint32Array, b: Uint32Array, offset: number, minOverlap: number, stride: number): number {
+  const startA = Math.max(0, offset);
+  const startB = Math.max(0, -offset);
+  const overlap = Math.min(a.length - startA, b.length - startB);
+  if (overlap < minOverlap) return 0;
+
+  let errors = 0;
+  let compared = 0;
+  for (let i = 0; i < overlap; i += stride) {
+    errors += popcount(a[startA + i] ^ b[startB + i]);
+    compared++;
+  }
+  return 1 - errors / (compared * 32);
+}
+
+function decode(fingerprint: string): Uint32Array {
+  const buffer = Buffer.from(fingerprint, 'base64');
+  const words = new Uint32Array(Math.floor(buffer.length / 4));
+  for (let i = 0; i < words.length; i++) words[i] = buffer.readUInt32LE(i * 4);
+  return words;
+}
+
+function popcount(value: number): number {
+  let v = value - ((value >>> 1) & 0x55555555);
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
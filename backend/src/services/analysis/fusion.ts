@@ -0,0 +1,163 @@
+import { AnalysisField, AnalysisProvenance, AudioAnalysisResult } from '@/types';
+import { ConfiguredProvider, ProviderResult } from './providers';
+import { round } from './dsp';
+import { sameKey } from './musicalKey';
+
+export interface ProviderContribution extends ConfiguredProvider {
+  result: ProviderResult;
+}
+
+type ResultProperty = keyof AudioAnalysisResult;
+
+interface Candidate<K extends ResultProperty = ResultProperty> {
+  contribution: ProviderContribution;
+  value: NonNullable<AudioAnalysisResult[K]>;
+  confidence: number;
+  score: number; // confidence * provider weight
+}
+
+type Agreement = {
+  [K in ResultProperty]?: (a: NonNullable<AudioAnalysisResult[K]>, b: NonNullable<AudioAnalysisResult[K]>) => boolean;
+};
+
+// Result properties that travel together with each field
+const FIELD_PROPERTIES: Record<AnalysisField, ResultProperty[]> = {
+  bpm: ['bpm', 'tempoConfidence'],
+  tempoCurve: ['tempoCurve'],
+  key: ['musicalKey', 'camelotKey', 'keyConfidence'],
+  keyTimeline: ['keyModulations', 'introKey', 'outroKey'],
+  energy: ['energyLevel', 'energyCurve'],
+  descriptors: ['descriptors'],
+  loudness: ['loudness', 'loudnessShortTermMax', 'truePeak', 'loudnessRange'],
+  genre: ['genre'],
+  beatGrid: ['beatGrid'],
+  structure: ['structure', 'cuePoints'],
+  waveform: ['waveformPeaks', 'waveformLevels'],
+  bounds: ['audioStart', 'audioEnd'],
+  quality: ['quality']
+};
+
+// The property that decides whether a provider produced the field at all
+const PRIMARY_PROPERTY: Record<AnalysisField, ResultProperty> = {
+  bpm: 'bpm',
+  tempoCurve: 'tempoCurve',
+  key: 'musicalKey',
+  keyTimeline: 'keyModulations',
+  energy: 'energyLevel',
+  descriptors: 'descriptors',
+  loudness: 'loudness',
+  genre: 'genre',
+  beatGrid: 'beatGrid',
+  structure: 'structure',
+  waveform: 'waveformPeaks',
+  bounds: 'audioStart',
+  quality: 'quality'
+};
+
+// When two providers' values of a field's primary property count as the same
+// answer. Fields without a rule never agree, so the most confident provider
+// simply wins.
+const AGREEMENT: Agreement = {
+  bpm: (a, b) => Math.abs(a - b) / Math.max(a, b) <= 0.02,
+  musicalKey: (a, b) => sameKey(a, b),
+  energyLevel: (a, b) => Math.abs(a - b) <= 0.1,
+  loudness: (a, b) => Math.abs(a - b) <= 1,
+  genre: (a, b) => a.trim().toLowerCase() === b.trim().toLowerCase()
+};
+
+/**
+ * Reconcile provider results field by field. Candidates that agree are grouped,
+ * the group with the highest total weighted confidence wins, and its most
+ * confident member supplies the value.
+ */
+export function fuseResults(contributions: ProviderContribution[]): AudioAnalysisResult {
+  const result: AudioAnalysisResult = {};
+  const provenance: AnalysisProvenance = {};
+
+  for (const field of Object.keys(FIELD_PROPERTIES) as AnalysisField[]) {
+    const candidates = collectCandidates(field, PRIMARY_PROPERTY[field], contributions);
+    if (candidates.length === 0) continue;
+
+    const groups = groupCandidates(PRIMARY_PROPERTY[field], candidates);
+    const totalScore = candidates.reduce((sum, candidate) => sum + candidate.score, 0);
+    const groupScore = (group: Candidate[]) => group.reduce((sum, candidate) => sum + candidate.score, 0);
+    const winning = groups.reduce((best, group) => (groupScore(group) > groupScore(best) ? group : best));
+    const leader = winning[0];
+
+    // Agreement raises confidence; disagreement scales it by the winning share
+    const combined = 1 - winning.reduce((product, candidate) => product * (1 - candidate.confidence), 1);
+    const confidence = round(totalScore > 0 ? combined * (groupScore(winning) / totalScore) : 0, 2);
+
+    for (const property of FIELD_PROPERTIES[field]) {
+      copyProperty(result, leader.contribution.result.values, property);
+    }
+    if (field === 'bpm') result.tempoConfidence = confidence;
+    if (field === 'key') result.keyConfidence = confidence;
+
+    provenance[field] = {
+      provider: leader.contribution.provider.name,
+      providerVersion: leader.contribution.provider.version,
+      confidence,
+      agreeing: winning.slice(1).map(candidate => candidate.contribution.provider.name),
+      overruled: candidates
+        .filter(candidate => !winning.includes(candidate))
+        .map(candidate => ({
+          provider: candidate.contribution.provider.name,
+          value: candidate.value,
+          confidence: candidate.confidence
+        }))
+    };
+  }
+
+  result.provenance = provenance;
+  return result;
+}
+
+function copyProperty<K extends ResultProperty>(
+  target: AudioAnalysisResult,
+  source: Partial<AudioAnalysisResult>,
+  property: K
+): void {
+  const value = source[property];
+  if (value !== undefined) {
+    target[property] = value;
+  }
+}
+
+/**
+ * Candidates for a field, most confident first
+ */
+function collectCandidates<K extends ResultProperty>(
+  field: AnalysisField,
+  property: K,
+  contributions: ProviderContribution[]
+): Candidate<K>[] {
+  return contributions
+    .filter(contribution => contribution.provider.fields.includes(field))
+    .map(contribution => {
+      const value = contribution.result.values[property];
+      const confidence = contribution.result.confidence[field] ?? 0;
+      return { contribution, value, confidence, score: confidence * contribution.weight };
+    })
+    .filter((candidate): candidate is Candidate<K> => candidate.value !== undefined && candidate.value !== null)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Greedily group candidates that agree with a group's leader
+ */
+function groupCandidates<K extends ResultProperty>(property: K, candidates: Candidate<K>[]): Candidate<K>[][] {
+  const agrees = AGREEMENT[property];
+  const groups: Candidate<K>[][] = [];
+
+  for (const candidate of candidates) {
+    const group = agrees ? groups.find(existing => agrees(existing[0].value, candidate.value)) : undefined;
+    if (group) {
+      group.push(candidate);
+    } else {
+      groups.push([candidate]);
+    }
+  }
+
+  return groups;
+}
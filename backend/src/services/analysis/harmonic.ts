@@ -0,0 +1,111 @@
+import { KeyRelation, TempoRelation } from '@/types';
+import { MusicalKey, parseKey, formatKey, moveOnWheel, relativeKey } from './musicalKey';
+import { round } from './dsp';
+
+export interface CompatibleKey {
+  camelotKey: string;
+  musicalKey: string;
+  relation: KeyRelation;
+  score: number; // 0-1, how smoothly the keys blend
+}
+
+export interface TempoMatch {
+  relation: TempoRelation;
+  difference: number; // relative, 0.02 = 2%
+}
+
+export interface CompatibilityOptions {
+  energyBoost?: boolean; // also suggest jumps that lift the energy
+}
+
+// How well each kind of move blends; the same key always works, a jump is a deliberate lift
+const RELATION_SCORES: Record<KeyRelation, number> = {
+  same: 1,
+  adjacent: 0.9,
+  relative: 0.85,
+  energy_boost: 0.7
+};
+
+// Energy-boost jumps: +2 on the wheel is a whole tone up, +7 a semitone up
+const ENERGY_BOOST_STEPS = [2, 7];
+
+// Playing a track at half or double time works, but changes the feel
+export const OCTAVE_TEMPO_PENALTY = 0.9;
+
+/**
+ * Keys that mix well out of a key (in any notation): itself, one step either
+ * way on the Camelot wheel, its relative major/minor and, optionally,
+ * energy-boost jumps
+ */
+export function compatibleKeys(fromKey: string, options: CompatibilityOptions = {}): CompatibleKey[] {
+  const key = parseKey(fromKey);
+  if (!key) return [];
+
+  const moves: [MusicalKey, KeyRelation][] = [
+    [key, 'same'],
+    [moveOnWheel(key, 1), 'adjacent'],
+    [moveOnWheel(key, -1), 'adjacent'],
+    [relativeKey(key), 'relative']
+  ];
+  if (options.energyBoost) {
+    for (const step of ENERGY_BOOST_STEPS) moves.push([moveOnWheel(key, step), 'energy_boost']);
+  }
+
+  return moves.map(([move, relation]) => ({
+    camelotKey: formatKey(move, 'camelot'),
+    musicalKey: formatKey(move),
+    relation,
+    score: RELATION_SCORES[relation]
+  }));
+}
+
+/**
+ * How a candidate's tempo lines up with the source's, allowing half and
+ * double time. Null if no alignment is within `tolerance` (relative).
+ */
+export function matchTempo(sourceBpm: number, candidateBpm: number, tolerance: number): TempoMatch | null {
+  const alignments: [TempoRelation, number][] = [['same', sourceBpm], ['half', sourceBpm / 2], ['double', sourceBpm * 2]];
+
+  let best: TempoMatch | null = null;
+  for (const [relation, target] of alignments) {
+    const difference = Math.abs(candidateBpm - target) / target;
+    if (difference <= tolerance && (!best || difference < best.difference)) {
+      best = { relation, difference: round(difference, 4) };
+    }
+  }
+  return best;
+}
+
+/**
+ * Overall compatibility: the key move's score, reduced as the tempo gap
+ * approaches the tolerance and for half/double time
+ */
+export function compatibilityScore(key: CompatibleKey, tempo: TempoMatch, tolerance: number): number {
+  const tempoFit = tolerance > 0 ? 1 - 0.5 * (tempo.difference / tolerance) : 1;
+  const octave = tempo.relation === 'same' ? 1 : OCTAVE_TEMPO_PENALTY;
+  return round(key.score * tempoFit * octave, 3);
+}
+
+/**
+ * Why a candidate mixes well, e.g. "Relative major/minor (8A → 8B); 126 BPM, 1.6% off"
+ */
+export function describeCompatibility(
+  fromCamelot: string,
+  key: CompatibleKey,
+  tempo: TempoMatch,
+  candidateBpm: number
+): string {
+  const keyReason = {
+    same: 'Same key',
+    adjacent: 'Adjacent on the Camelot wheel',
+    relative: 'Relative major/minor',
+    energy_boost: 'Energy boost jump'
+  }[key.relation];
+  const tempoReason = {
+    same: '',
+    half: ' at half time',
+    double: ' at double time'
+  }[tempo.relation];
+
+  return `${keyReason} (${fromCamelot} → ${key.camelotKey}); ${round(candidateBpm, 1)} BPM${tempoReason}, ${round(tempo.difference * 100, 1)}% off`;
+}
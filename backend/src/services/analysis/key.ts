@@ -0,0 +1,291 @@
+import { KeyModulation } from '@/types';
+import { PcmAudio, stft, clamp, round } from './dsp';
+import { MusicalKey, KeyMode, convertToCamelot, formatKey } from './musicalKey';
+
+const CHROMA_FRAME_SIZE = 8192;
+const CHROMA_HOP_SIZE = 4096;
+const CHROMA_MIN_FREQ = 55; // A1
+const CHROMA_MAX_FREQ = 2000;
+
+// Names of the keys in the order keyScores() returns them
+const KEY_NAMES = Array.from({ length: 12 }, (_, tonic) => [
+  formatKey({ tonic, mode: 'major' }),
+  formatKey({ tonic, mode: 'minor' })
+]).flat();
+
+// Krumhansl-Kessler probe-tone profiles, tonic first
+const MAJOR_PROFILE = [6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88];
+const MINOR_PROFILE = [6.33, 2.68, 3.52, 5.38, 2.60, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17];
+
+// Window over which the local key is estimated, and how far it moves each step
+const KEY_WINDOW_SECONDS = 16;
+const KEY_HOP_SECONDS = 4;
+
+// Profile correlation a key change must gain to be worth taking
+const KEY_CHANGE_PENALTY = 0.3;
+
+// Shorter stretches in another key are passing chords, not modulations
+const MIN_KEY_SEGMENT_SECONDS = 20;
+
+export interface KeyEstimate {
+  musicalKey: string; // e.g. "F# minor"
+  tonic: number; // pitch class, 0 = C
+  mode: KeyMode;
+  confidence: number; // 0-1
+}
+
+export interface Chromagram {
+  frames: Float64Array[]; // 12 bins per frame, each normalized to sum to 1 (empty for silence)
+  frameRate: number;
+  timeOffset: number; // seconds at the centre of frame 0
+}
+
+export interface KeySegment {
+  key: string;
+  start: number; // seconds
+  end: number; // seconds
+}
+
+export interface KeyTimeline {
+  segments: KeySegment[];
+  modulations: KeyModulation[];
+  introKey: string;
+  outroKey: string;
+}
+
+/**
+ * Per-frame 12-bin pitch class profiles
+ */
+export function computeChromagram(audio: PcmAudio): Chromagram {
+  const binHz = audio.sampleRate / CHROMA_FRAME_SIZE;
+  const firstBin = Math.ceil(CHROMA_MIN_FREQ / binHz);
+  const lastBin = Math.min(CHROMA_FRAME_SIZE / 2, Math.floor(CHROMA_MAX_FREQ / binHz));
+
+  // Precompute pitch class and tuning weight for each bin
+  const binClass = new Int8Array(lastBin + 1);
+  const binWeight = new Float64Array(lastBin + 1);
+  for (let k = firstBin; k <= lastBin; k++) {
+    const midi = 69 + 12 * Math.log2((k * binHz) / 440);
+    const nearest = Math.round(midi);
+    binClass[k] = ((nearest % 12) + 12) % 12;
+    binWeight[k] = Math.cos(Math.PI * (midi - nearest)) ** 2;
+  }
+
+  const frames: Float64Array[] = [];
+
+  stft(audio.samples, CHROMA_FRAME_SIZE, CHROMA_HOP_SIZE, (magnitudes) => {
+    const frame = new Float64Array(12);
+    for (let k = firstBin; k <= lastBin; k++) {
+      frame[binClass[k]] += binWeight[k] * magnitudes[k];
+    }
+    let total = 0;
+    for (let pc = 0; pc < 12; pc++) total += frame[pc];
+    if (total > 1e-9) {
+      for (let pc = 0; pc < 12; pc++) frame[pc] /= total;
+    } else {
+      frame.fill(0); // Silence carries no tonal information
+    }
+    frames.push(frame);
+  });
+
+  return {
+    frames,
+    frameRate: audio.sampleRate / CHROMA_HOP_SIZE,
+    timeOffset: CHROMA_FRAME_SIZE / 2 / audio.sampleRate
+  };
+}
+
+/**
+ * Average pitch class profile over a range of chromagram frames. Frames are
+ * normalized individually so quiet passages count as much as loud ones.
+ */
+export function averageChroma(chromagram: Chromagram, startFrame: number = 0, endFrame?: number): number[] {
+  const chroma = new Array<number>(12).fill(0);
+  const end = Math.min(endFrame ?? chromagram.frames.length, chromagram.frames.length);
+  for (let i = Math.max(0, startFrame); i < end; i++) {
+    for (let pc = 0; pc < 12; pc++) chroma[pc] += chromagram.frames[i][pc];
+  }
+  return chroma;
+}
+
+/**
+ * Match a chroma vector against all 24 rotated major/minor key profiles
+ */
+export function estimateKey(chroma: number[]): KeyEstimate | null {
+  if (chroma.every(value => value === 0)) return null;
+
+  const candidates = keyScores(chroma).sort((a, b) => b.score - a.score);
+
+  const [best, runnerUp] = candidates;
+  if (best.score <= 0) return null;
+
+  // Strong fit and a clear margin over the next key are both needed to be sure
+  const margin = clamp((best.score - runnerUp.score) / 0.1, 0, 1);
+  const confidence = clamp(best.score, 0, 1) * (0.5 + 0.5 * margin);
+
+  return {
+    musicalKey: formatKey(best),
+    tonic: best.tonic,
+    mode: best.mode,
+    confidence: round(confidence, 2)
+  };
+}
+
+/**
+ * Key over time between `start` and `end` seconds. Windowed key scores are
+ * decoded into the best path through the 24 keys, where each change costs
+ * KEY_CHANGE_PENALTY, so a key only changes when it stays changed.
+ */
+export function computeKeyTimeline(chromagram: Chromagram, start: number, end: number): KeyTimeline | null {
+  const toFrame = (time: number) => Math.round((time - chromagram.timeOffset) * chromagram.frameRate);
+  const firstFrame = Math.max(0, toFrame(start));
+  const lastFrame = Math.min(chromagram.frames.length, toFrame(end));
+  const windowFrames = Math.round(KEY_WINDOW_SECONDS * chromagram.frameRate);
+  const hopFrames = Math.round(KEY_HOP_SECONDS * chromagram.frameRate);
+
+  // Score every key in every window; windows without tonal content score nothing
+  const times: number[] = [];
+  const scores: number[][] = [];
+  for (let from = firstFrame; from + windowFrames <= lastFrame || from === firstFrame; from += hopFrames) {
+    const to = Math.min(lastFrame, from + windowFrames);
+    const chroma = averageChroma(chromagram, from, to);
+    times.push(chromagram.timeOffset + (from + to) / 2 / chromagram.frameRate);
+    scores.push(chroma.every(value => value === 0) ? new Array(24).fill(0) : keyScores(chroma).map(candidate => candidate.score));
+  }
+  if (scores.every(window => window.every(score => score === 0))) return null;
+
+  const path = bestKeyPath(scores);
+
+  // Changes happen between window centres
+  let segments: KeySegment[] = [];
+  path.forEach((state, i) => {
+    const segmentStart = i === 0 ? start : (times[i - 1] + times[i]) / 2;
+    const last = segments[segments.length - 1];
+    if (last && last.key === KEY_NAMES[state]) return;
+    if (last) last.end = segmentStart;
+    segments.push({ key: KEY_NAMES[state], start: segmentStart, end });
+  });
+
+  segments = mergeKeySegments(segments);
+
+  const modulations: KeyModulation[] = segments.slice(1).map((segment, i) => ({
+    time: round(segment.start, 2),
+    fromKey: segments[i].key,
+    toKey: segment.key,
+    fromCamelot: convertToCamelot(segments[i].key),
+    toCamelot: convertToCamelot(segment.key)
+  }));
+
+  return {
+    segments: segments.map(segment => ({ ...segment, start: round(segment.start, 2), end: round(segment.end, 2) })),
+    modulations,
+    introKey: segments[0].key,
+    outroKey: segments[segments.length - 1].key
+  };
+}
+
+/**
+ * Fold short segments into their longer neighbour, and relative major/minor
+ * pairs (same notes, same Camelot number) into one segment in the key that
+ * lasts longer
+ */
+function mergeKeySegments(segments: KeySegment[]): KeySegment[] {
+  const duration = (segment: KeySegment) => segment.end - segment.start;
+  const camelotNumber = (key: string) => convertToCamelot(key)?.slice(0, -1);
+  const result = segments.map(segment => ({ ...segment }));
+
+  let merged = true;
+  while (merged && result.length > 1) {
+    merged = false;
+    for (let i = 0; i < result.length; i++) {
+      const next = result[i + 1];
+      const relative = next && camelotNumber(result[i].key) === camelotNumber(next.key);
+      const short = duration(result[i]) < MIN_KEY_SEGMENT_SECONDS;
+      if (!relative && !short) continue;
+
+      // Merge into the following segment, or the previous one at the end
+      const [a, b] = next ? [i, i + 1] : [i - 1, i];
+      const keep = relative || !next
+        ? (duration(result[a]) >= duration(result[b]) ? result[a] : result[b])
+        : result[b];
+      result.splice(a, 2, { key: keep.key, start: result[a].start, end: result[b].end });
+      merged = true;
+      break;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Viterbi decoding over windows: maximize the summed key scores minus a
+ * penalty for every change of key
+ */
+function bestKeyPath(scores: number[][]): number[] {
+  const states = scores[0].length;
+  let total = scores[0].slice();
+  const backPointers: number[][] = [];
+
+  for (let t = 1; t < scores.length; t++) {
+    let bestPrevious = 0;
+    for (let k = 1; k < states; k++) {
+      if (total[k] > total[bestPrevious]) bestPrevious = k;
+    }
+
+    const pointers = new Array<number>(states);
+    const next = new Array<number>(states);
+    for (let k = 0; k < states; k++) {
+      const change = total[bestPrevious] - KEY_CHANGE_PENALTY;
+      pointers[k] = total[k] >= change ? k : bestPrevious;
+      next[k] = Math.max(total[k], change) + scores[t][k];
+    }
+    backPointers.push(pointers);
+    total = next;
+  }
+
+  let state = 0;
+  for (let k = 1; k < states; k++) {
+    if (total[k] > total[state]) state = k;
+  }
+  const path = [state];
+  for (let t = backPointers.length - 1; t >= 0; t--) {
+    state = backPointers[t][state];
+    path.unshift(state);
+  }
+  return path;
+}
+
+/**
+ * Correlation of a chroma vector with all 24 keys, majors and minors
+ * interleaved from C upwards
+ */
+function keyScores(chroma: number[]): Array<MusicalKey & { score: number }> {
+  const candidates: Array<MusicalKey & { score: number }> = [];
+  for (let tonic = 0; tonic < 12; tonic++) {
+    candidates.push({ tonic, mode: 'major', score: correlate(chroma, MAJOR_PROFILE, tonic) });
+    candidates.push({ tonic, mode: 'minor', score: correlate(chroma, MINOR_PROFILE, tonic) });
+  }
+  return candidates;
+}
+
+/**
+ * Pearson correlation between a chroma vector and a profile rotated to the tonic
+ */
+function correlate(chroma: number[], profile: number[], tonic: number): number {
+  const chromaMean = chroma.reduce((a, b) => a + b, 0) / 12;
+  const profileMean = profile.reduce((a, b) => a + b, 0) / 12;
+
+  let numerator = 0;
+  let chromaVar = 0;
+  let profileVar = 0;
+  for (let i = 0; i < 12; i++) {
+    const c = chroma[(i + tonic) % 12] - chromaMean;
+    const p = profile[i] - profileMean;
+    numerator += c * p;
+    chromaVar += c * c;
+    profileVar += p * p;
+  }
+
+  const denominator = Math.sqrt(chromaVar * profileVar);
+  return denominator > 0 ? numerator / denominator : 0;
+}
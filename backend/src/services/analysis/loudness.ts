@@ -0,0 +1,224 @@
+import { round } from './dsp';
+
+// ITU-R BS.1770-4 / EBU R128 loudness measurement
+
+const ABSOLUTE_GATE_LUFS = -70;
+const INTEGRATED_RELATIVE_GATE_LU = -10;
+const RANGE_RELATIVE_GATE_LU = -20;
+const OVERSAMPLING = 4;
+const TAPS_PER_PHASE = 12;
+
+export interface LoudnessResult {
+  integrated: number | null; // LUFS
+  shortTermMax: number | null; // LUFS
+  truePeak: number | null; // dBTP
+  range: number | null; // LU
+}
+
+interface Biquad {
+  b0: number; b1: number; b2: number;
+  a1: number; a2: number;
+}
+
+/**
+ * K-weighting pre-filter and RLB high-pass for an arbitrary sample rate,
+ * derived from the analog prototypes so the 48 kHz coefficients of the
+ * standard are reproduced exactly
+ */
+function kWeightingFilters(sampleRate: number): [Biquad, Biquad] {
+  let f0 = 1681.974450955533;
+  const gain = 3.999843853973347;
+  let q = 0.7071752369554196;
+  let k = Math.tan((Math.PI * f0) / sampleRate);
+  const vh = 10 ** (gain / 20);
+  const vb = vh ** 0.4996667741545416;
+  let a0 = 1 + k / q + k * k;
+
+  const shelf: Biquad = {
+    b0: (vh + (vb * k) / q + k * k) / a0,
+    b1: (2 * (k * k - vh)) / a0,
+    b2: (vh - (vb * k) / q + k * k) / a0,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0
+  };
+
+  f0 = 38.13547087602444;
+  q = 0.5003270373238773;
+  k = Math.tan((Math.PI * f0) / sampleRate);
+  a0 = 1 + k / q + k * k;
+
+  const highPass: Biquad = {
+    b0: 1,
+    b1: -2,
+    b2: 1,
+    a1: (2 * (k * k - 1)) / a0,
+    a2: (1 - k / q + k * k) / a0
+  };
+
+  return [shelf, highPass];
+}
+
+/**
+ * Windowed-sinc interpolation filter for true-peak oversampling
+ */
+function interpolationFilter(): Float64Array {
+  const length = OVERSAMPLING * TAPS_PER_PHASE;
+  const taps = new Float64Array(length);
+  const center = (length - 1) / 2;
+  for (let n = 0; n < length; n++) {
+    const x = (n - center) / OVERSAMPLING;
+    const sinc = x === 0 ? 1 : Math.sin(Math.PI * x) / (Math.PI * x);
+    const window = 0.5 - 0.5 * Math.cos((2 * Math.PI * (n + 0.5)) / length);
+    taps[n] = sinc * window;
+  }
+  return taps;
+}
+
+function toLufs(meanSquare: number): number {
+  return -0.691 + 10 * Math.log10(meanSquare);
+}
+
+function fromLufs(lufs: number): number {
+  return 10 ** ((lufs + 0.691) / 10);
+}
+
+/**
+ * Streaming loudness meter. Feed interleaved float samples in any chunk size,
+ * then read the result once the stream has ended.
+ */
+export class LoudnessMeter {
+  private readonly channels: number;
+  private readonly subBlockLength: number; // samples per 100 ms
+  private readonly filters: [Biquad, Biquad];
+  private readonly filterState: Float64Array[];
+  private readonly interpolation = interpolationFilter();
+  private readonly history: Float64Array[];
+  private historyIndex = 0;
+
+  private subBlockEnergy = 0;
+  private subBlockFill = 0;
+  private readonly subBlocks: number[] = []; // mean square per 100 ms
+
+  private peak = 0;
+
+  constructor(sampleRate: number, channels: number) {
+    this.channels = channels;
+    this.subBlockLength = Math.round(sampleRate / 10);
+    this.filters = kWeightingFilters(sampleRate);
+    this.filterState = Array.from({ length: channels }, () => new Float64Array(4));
+    this.history = Array.from({ length: channels }, () => new Float64Array(TAPS_PER_PHASE));
+  }
+
+  process(interleaved: Float32Array): void {
+    const [shelf, highPass] = this.filters;
+    const frames = Math.floor(interleaved.length / this.channels);
+
+    for (let i = 0; i < frames; i++) {
+      for (let c = 0; c < this.channels; c++) {
+        const x = interleaved[i * this.channels + c];
+        const state = this.filterState[c];
+
+        // Direct form II transposed, two cascaded stages
+        const y1 = shelf.b0 * x + state[0];
+        state[0] = shelf.b1 * x - shelf.a1 * y1 + state[1];
+        state[1] = shelf.b2 * x - shelf.a2 * y1;
+        const y2 = highPass.b0 * y1 + state[2];
+        state[2] = highPass.b1 * y1 - highPass.a1 * y2 + state[3];
+        state[3] = highPass.b2 * y1 - highPass.a2 * y2;
+
+        this.subBlockEnergy += y2 * y2;
+        this.trackTruePeak(c, x);
+      }
+      this.historyIndex = (this.historyIndex + 1) % TAPS_PER_PHASE;
+
+      if (++this.subBlockFill === this.subBlockLength) {
+        this.subBlocks.push(this.subBlockEnergy / this.subBlockLength);
+        this.subBlockEnergy = 0;
+        this.subBlockFill = 0;
+      }
+    }
+  }
+
+  getResult(): LoudnessResult {
+    const momentary = this.windowedEnergies(4, 1); // 400 ms blocks, 75% overlap
+    const shortTerm = this.windowedEnergies(30, 1); // 3 s windows every 100 ms
+    const rangeBlocks = this.windowedEnergies(30, 10); // 3 s windows every second
+
+    return {
+      integrated: this.integratedLoudness(momentary),
+      shortTermMax: shortTerm.length > 0 ? round(toLufs(Math.max(...shortTerm)), 2) : null,
+      truePeak: this.peak > 0 ? round(20 * Math.log10(this.peak), 2) : null,
+      range: this.loudnessRange(rangeBlocks)
+    };
+  }
+
+  /**
+   * Oversample the channel by linear-phase polyphase interpolation and keep
+   * the largest absolute inter-sample value
+   */
+  private trackTruePeak(channel: number, sample: number): void {
+    const history = this.history[channel];
+    history[this.historyIndex] = sample;
+
+    for (let phase = 0; phase < OVERSAMPLING; phase++) {
+      let value = 0;
+      for (let tap = 0; tap < TAPS_PER_PHASE; tap++) {
+        const index = (this.historyIndex - tap + TAPS_PER_PHASE) % TAPS_PER_PHASE;
+        value += history[index] * this.interpolation[phase + tap * OVERSAMPLING];
+      }
+      const magnitude = Math.abs(value);
+      if (magnitude > this.peak) this.peak = magnitude;
+    }
+
+    const magnitude = Math.abs(sample);
+    if (magnitude > this.peak) this.peak = magnitude;
+  }
+
+  /**
+   * Channel-summed mean square of windows spanning `length` sub-blocks,
+   * advancing `step` sub-blocks at a time
+   */
+  private windowedEnergies(length: number, step: number): number[] {
+    const energies: number[] = [];
+    for (let end = length; end <= this.subBlocks.length; end += step) {
+      let sum = 0;
+      for (let i = end - length; i < end; i++) sum += this.subBlocks[i];
+      energies.push(sum / length);
+    }
+    return energies;
+  }
+
+  private integratedLoudness(blocks: number[]): number | null {
+    const absoluteGate = fromLufs(ABSOLUTE_GATE_LUFS);
+    const aboveAbsolute = blocks.filter(energy => energy > absoluteGate);
+    if (aboveAbsolute.length === 0) return null;
+
+    const relativeGate = fromLufs(toLufs(average(aboveAbsolute)) + INTEGRATED_RELATIVE_GATE_LU);
+    const gated = aboveAbsolute.filter(energy => energy > relativeGate);
+    return gated.length > 0 ? round(toLufs(average(gated)), 2) : null;
+  }
+
+  /**
+   * Loudness range per EBU Tech 3342: spread between the 10th and 95th
+   * percentile of gated short-term loudness
+   */
+  private loudnessRange(blocks: number[]): number | null {
+    const absoluteGate = fromLufs(ABSOLUTE_GATE_LUFS);
+    const aboveAbsolute = blocks.filter(energy => energy > absoluteGate);
+    if (aboveAbsolute.length === 0) return null;
+
+    const relativeGate = fromLufs(toLufs(average(aboveAbsolute)) + RANGE_RELATIVE_GATE_LU);
+    const gated = aboveAbsolute
+      .filter(energy => energy > relativeGate)
+      .map(toLufs)
+      .sort((a, b) => a - b);
+    if (gated.length === 0) return null;
+
+    const percentile = (p: number) => gated[Math.min(gated.length - 1, Math.round(p * (gated.length - 1)))];
+    return round(percentile(0.95) - percentile(0.1), 2);
+  }
+}
+
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
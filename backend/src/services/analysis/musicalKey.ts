@@ -0,0 +1,144 @@
+export type KeyMode = 'major' | 'minor';
+export type KeyNotation = 'standard' | 'camelot' | 'open_key';
+
+export interface MusicalKey {
+  tonic: number; // pitch class, 0 = C
+  mode: KeyMode;
+}
+
+// Standard names use sharps, as the detector and stored tracks always have
+export const PITCH_CLASSES = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+
+const LETTER_PITCHES: Record<string, number> = { c: 0, d: 2, e: 4, f: 5, g: 7, a: 9, b: 11 };
+
+// "F#m", "Bbmin", "Gb major", "A-flat minor", "C"; a lone M is major, a lone m minor
+const STANDARD_PATTERN = /^([a-g])\s*(#|♯|b|♭|-?\s*sharp|-?\s*flat)?\s*(major|maj|minor|min|m)?$/i;
+const CAMELOT_PATTERN = /^0?(1[0-2]|[1-9])\s*([ab])$/i; // 8A = A minor, 8B = C major
+const OPEN_KEY_PATTERN = /^0?(1[0-2]|[1-9])\s*([dm])$/i; // 1m = A minor, 1d = C major
+
+// Camelot number of C major; one step round the wheel is a fifth (7 semitones)
+const CAMELOT_C_MAJOR = 8;
+const FIFTH = 7;
+
+/**
+ * Parse a key in standard (including enharmonic spellings and shorthands
+ * like "F#m" or "Bbmin"), Camelot or Open Key notation
+ */
+export function parseKey(input: string | undefined | null): MusicalKey | null {
+  if (typeof input !== 'string') return null;
+  const text = input.trim().replace(/\s+key$/i, '');
+
+  const camelot = CAMELOT_PATTERN.exec(text);
+  if (camelot) {
+    return fromWheel(Number(camelot[1]), camelot[2].toUpperCase() === 'A' ? 'minor' : 'major');
+  }
+
+  const openKey = OPEN_KEY_PATTERN.exec(text);
+  if (openKey) {
+    const number = ((Number(openKey[1]) + CAMELOT_C_MAJOR - 2) % 12) + 1;
+    return fromWheel(number, openKey[2].toLowerCase() === 'm' ? 'minor' : 'major');
+  }
+
+  const standard = STANDARD_PATTERN.exec(text);
+  if (!standard) return null;
+
+  const [, letter, accidental = '', mode = ''] = standard;
+  const sharp = /#|♯|sharp/i.test(accidental);
+  const flat = !sharp && accidental !== '';
+  const tonic = LETTER_PITCHES[letter.toLowerCase()] + (sharp ? 1 : flat ? -1 : 0);
+  const minor = mode === 'm' || /^min/i.test(mode);
+
+  return { tonic: pitchClass(tonic), mode: minor ? 'minor' : 'major' };
+}
+
+/**
+ * Write a key as e.g. "F# minor", "11A" or "4m"
+ */
+export function formatKey(key: MusicalKey, notation: KeyNotation = 'standard'): string {
+  const { number, letter } = wheelPosition(key);
+  switch (notation) {
+    case 'camelot':
+      return `${number}${letter}`;
+    case 'open_key':
+      return `${((number - CAMELOT_C_MAJOR + 12) % 12) + 1}${key.mode === 'major' ? 'd' : 'm'}`;
+    default:
+      return `${PITCH_CLASSES[key.tonic]} ${key.mode}`;
+  }
+}
+
+/**
+ * Re-write a key given in any notation; undefined if it cannot be parsed
+ */
+export function convertKey(input: string | undefined | null, notation: KeyNotation): string | undefined {
+  const key = parseKey(input);
+  return key ? formatKey(key, notation) : undefined;
+}
+
+/**
+ * Standard name for a key in any notation, e.g. "Am" -> "A minor"
+ */
+export function normalizeKey(input: string | undefined | null): string | undefined {
+  return convertKey(input, 'standard');
+}
+
+/**
+ * Convert a key in any notation to Camelot notation
+ */
+export function convertToCamelot(input: string | undefined | null): string | undefined {
+  return convertKey(input, 'camelot');
+}
+
+/**
+ * Whether two keys, in any notations, are the same key
+ */
+export function sameKey(a: string | undefined | null, b: string | undefined | null): boolean {
+  const first = parseKey(a);
+  const second = parseKey(b);
+  return !!first && !!second && first.tonic === second.tonic && first.mode === second.mode;
+}
+
+export function transposeKey(key: MusicalKey, semitones: number): MusicalKey {
+  return { tonic: pitchClass(key.tonic + semitones), mode: key.mode };
+}
+
+/**
+ * The key `steps` places round the Camelot wheel, keeping the mode
+ */
+export function moveOnWheel(key: MusicalKey, steps: number): MusicalKey {
+  return transposeKey(key, steps * FIFTH);
+}
+
+/**
+ * Relative major/minor: same notes, same Camelot number, other letter
+ */
+export function relativeKey(key: MusicalKey): MusicalKey {
+  return key.mode === 'major'
+    ? { tonic: pitchClass(key.tonic - 3), mode: 'minor' }
+    : { tonic: pitchClass(key.tonic + 3), mode: 'major' };
+}
+
+/**
+ * Steps between two keys on the Camelot wheel: the shorter way round, plus
+ * one for switching between major and minor
+ */
+export function wheelDistance(a: MusicalKey, b: MusicalKey): number {
+  const from = wheelPosition(a);
+  const to = wheelPosition(b);
+  const around = Math.abs(from.number - to.number);
+  return Math.min(around, 12 - around) + (from.letter === to.letter ? 0 : 1);
+}
+
+function wheelPosition(key: MusicalKey): { number: number; letter: 'A' | 'B' } {
+  const major = key.mode === 'major' ? key.tonic : pitchClass(key.tonic + 3);
+  const fifths = (major * FIFTH) % 12; // 7 is its own inverse mod 12
+  return { number: ((fifths + CAMELOT_C_MAJOR - 1) % 12) + 1, letter: key.mode === 'major' ? 'B' : 'A' };
+}
+
+function fromWheel(number: number, mode: KeyMode): MusicalKey {
+  const major = pitchClass((number - CAMELOT_C_MAJOR) * FIFTH);
+  return mode === 'major' ? { tonic: major, mode } : { tonic: pitchClass(major - 3), mode };
+}
+
+function pitchClass(semitones: number): number {
+  return ((semitones % 12) + 12) % 12;
+}
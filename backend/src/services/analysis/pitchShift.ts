@@ -0,0 +1,111 @@
+import { PitchShiftSuggestion, Track } from '@/types';
+import { compatibleKeys, CompatibleKey } from './harmonic';
+import { matchTempos } from './transitions';
+import { parseKey, formatKey, transposeKey } from './musicalKey';
+import { round } from './dsp';
+
+export interface PitchShiftOptions {
+  maxSemitones: number;
+}
+
+// Tempo changes below this (percent) move the pitch by less than a quarter
+// tone, which goes unnoticed without key lock
+const KEY_LOCK_FREE_TEMPO_CHANGE = 1.5;
+
+// Beyond this (percent) key lock's time-stretching becomes audible
+const MAX_TEMPO_CHANGE = 8;
+
+/**
+ * For each transition of an ordered set, the smallest pitch shift of the
+ * incoming track (with key lock) that makes its key compatible with the
+ * outgoing one, and the tempo change that beatmatches it. A shift carries
+ * into the track's next transition; tempos are matched to each outgoing
+ * track's own BPM, as the pitch fader is eased back after a mix.
+ */
+export function suggestPitchShifts(tracks: Track[], options: PitchShiftOptions): PitchShiftSuggestion[] {
+  const suggestions: PitchShiftSuggestion[] = [];
+  let outgoingShift = 0;
+
+  for (let i = 1; i < tracks.length; i++) {
+    const suggestion = suggestPitchShift(tracks[i - 1], tracks[i], outgoingShift, options.maxSemitones);
+    suggestions.push(suggestion);
+    outgoingShift = suggestion.semitones;
+  }
+  return suggestions;
+}
+
+function suggestPitchShift(from: Track, to: Track, outgoingShift: number, maxSemitones: number): PitchShiftSuggestion {
+  const warnings: string[] = [];
+  const outroKey = parseKey(from.outroKey || from.musicalKey);
+  const fromKey = outroKey ? transposeKey(outroKey, outgoingShift) : null;
+  const incomingKey = parseKey(to.introKey || to.musicalKey);
+
+  const suggestion: PitchShiftSuggestion = {
+    fromTrackId: from.id,
+    toTrackId: to.id,
+    fromCamelotKey: fromKey ? formatKey(fromKey, 'camelot') : undefined,
+    originalCamelotKey: incomingKey ? formatKey(incomingKey, 'camelot') : undefined,
+    semitones: 0,
+    pitchChangePercent: 0,
+    keyLock: false,
+    compatible: false,
+    warnings
+  };
+
+  if (from.bpm && to.bpm) {
+    const tempo = matchTempos(from.bpm, to.bpm);
+    suggestion.originalBpm = tempo.incomingBpm;
+    suggestion.adjustedBpm = tempo.adjustedBpm;
+    suggestion.tempoChangePercent = tempo.adjustmentPercent;
+    if (Math.abs(tempo.adjustmentPercent) > MAX_TEMPO_CHANGE) {
+      warnings.push(`Incoming tempo changes by ${tempo.adjustmentPercent}%; key lock will be audible`);
+    }
+  } else {
+    warnings.push(`No tempo detected for "${(from.bpm ? to : from).title}"`);
+  }
+
+  if (!fromKey || !incomingKey) {
+    warnings.push(`No key detected for "${(fromKey ? to : from).title}"`);
+  } else {
+    const targets = compatibleKeys(formatKey(fromKey), { energyBoost: true });
+    const shift = smallestShift(targets, semitones => formatKey(transposeKey(incomingKey, semitones), 'camelot'), maxSemitones);
+
+    if (shift) {
+      const resultingKey = transposeKey(incomingKey, shift.semitones);
+      suggestion.semitones = shift.semitones;
+      suggestion.resultingKey = formatKey(resultingKey);
+      suggestion.resultingCamelotKey = formatKey(resultingKey, 'camelot');
+      suggestion.keyRelation = shift.move.relation;
+      suggestion.pitchChangePercent = round((2 ** (shift.semitones / 12) - 1) * 100, 2);
+      suggestion.compatible = true;
+    } else {
+      warnings.push(
+        `No shift within ±${maxSemitones} semitones makes ${suggestion.originalCamelotKey} compatible with ${suggestion.fromCamelotKey}`
+      );
+    }
+  }
+
+  suggestion.keyLock = suggestion.semitones !== 0
+    || Math.abs(suggestion.tempoChangePercent ?? 0) > KEY_LOCK_FREE_TEMPO_CHANGE;
+  return suggestion;
+}
+
+/**
+ * Smallest shift (in semitones, either way) that lands on one of `targets`;
+ * between an upward and a downward shift the better key move wins
+ */
+function smallestShift(
+  targets: CompatibleKey[],
+  camelotAfter: (semitones: number) => string,
+  maxSemitones: number
+): { semitones: number; move: CompatibleKey } | null {
+  for (let size = 0; size <= maxSemitones; size++) {
+    const matches = (size === 0 ? [0] : [size, -size])
+      .map(semitones => ({ semitones, move: targets.find(key => key.camelotKey === camelotAfter(semitones)) }))
+      .filter((match): match is { semitones: number; move: CompatibleKey } => match.move !== undefined);
+    if (matches.length > 0) {
+      return matches.reduce((best, match) => (match.move.score > best.move.score ? match : best));
+    }
+  }
+  return null;
+}
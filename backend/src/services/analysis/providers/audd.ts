@@ -0,0 +1,70 @@
+import axios from 'axios';
+import FormData from 'form-data';
+import fs from 'fs';
+import { logger } from '@/utils/logger';
+import { AnalysisField } from '@/types';
+import { convertToCamelot, normalizeKey } from '../musicalKey';
+import { AnalysisProvider, ProviderResult } from './types';
+
+// AudD does not report confidence, so these reflect how often it has been right
+const BPM_CONFIDENCE = 0.8;
+const KEY_CONFIDENCE = 0.7;
+const GENRE_CONFIDENCE = 0.7;
+const LOUDNESS_CONFIDENCE = 0.3;
+
+/**
+ * AudD recognition API, which returns tempo, key and genre for known recordings
+ */
+export class AuddProvider implements AnalysisProvider {
+  readonly name = 'audd';
+  readonly version = 'api';
+  readonly fields: AnalysisField[] = ['bpm', 'key', 'genre', 'loudness'];
+  readonly supportsWindows = false;
+  readonly remote = true;
+
+  constructor(private apiKey: string) {}
+
+  async analyze(audioUrl: string): Promise<ProviderResult> {
+    if (!this.apiKey) {
+      logger.warn('AudD API key not configured, skipping AudD analysis');
+      return { values: {}, confidence: {} };
+    }
+
+    // Local files (uploads) are sent as the request body instead of by URL
+    const formData = new FormData();
+    if (/^https?:\/\//.test(audioUrl)) {
+      formData.append('url', audioUrl);
+    } else {
+      formData.append('file', fs.createReadStream(audioUrl));
+    }
+    formData.append('api_token', this.apiKey);
+    formData.append('return', 'musicbrainz');
+
+    const response = await axios.post('https://api.audd.io/', formData, {
+      headers: formData.getHeaders(),
+      timeout: 30000
+    });
+
+    if (response.data.status !== 'success' || !response.data.result) {
+      return { values: {}, confidence: {} };
+    }
+
+    const data = response.data.result;
+
+    return {
+      values: {
+        bpm: data.tempo ? Math.round(data.tempo) : undefined,
+        musicalKey: normalizeKey(data.key),
+        camelotKey: convertToCamelot(data.key),
+        genre: data.genre || undefined,
+        loudness: data.loudness || undefined
+      },
+      confidence: {
+        bpm: BPM_CONFIDENCE,
+        key: KEY_CONFIDENCE,
+        genre: GENRE_CONFIDENCE,
+        loudness: LOUDNESS_CONFIDENCE
+      }
+    };
+  }
+}
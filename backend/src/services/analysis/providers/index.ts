@@ -0,0 +1,49 @@
+import { logger } from '@/utils/logger';
+import { AnalysisProvider } from './types';
+import { AuddProvider } from './audd';
+import { LocalProvider } from './local';
+import { LoudnessProvider } from './loudness';
+import { QualityProvider } from './quality';
+
+export type { AnalysisProvider, ProviderResult } from './types';
+
+export interface ConfiguredProvider {
+  provider: AnalysisProvider;
+  weight: number; // multiplies the provider's own confidence during fusion
+}
+
+const PROVIDER_FACTORIES: Record<string, () => AnalysisProvider> = {
+  audd: () => new AuddProvider(process.env.AUDD_API_KEY || ''),
+  local: () => new LocalProvider(),
+  loudness: () => new LoudnessProvider(),
+  quality: () => new QualityProvider()
+};
+
+const DEFAULT_PROVIDERS = 'audd,local,loudness,quality';
+
+/**
+ * Build the enabled providers from a comma-separated list of `name[:weight]`
+ * entries, e.g. ANALYSIS_PROVIDERS="local,loudness,audd:0.5"
+ */
+export function loadProviders(config: string = process.env.ANALYSIS_PROVIDERS || DEFAULT_PROVIDERS): ConfiguredProvider[] {
+  const providers: ConfiguredProvider[] = [];
+
+  for (const entry of config.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [name, weightText] = entry.split(':');
+    const factory = PROVIDER_FACTORIES[name];
+    const weight = weightText === undefined ? 1 : Number(weightText);
+
+    if (!factory) {
+      logger.warn(`Unknown analysis provider "${name}", skipping`);
+      continue;
+    }
+    if (!Number.isFinite(weight) || weight <= 0) {
+      logger.warn(`Invalid weight for analysis provider "${name}", skipping`);
+      continue;
+    }
+
+    providers.push({ provider: factory(), weight });
+  }
+
+  return providers;
+}
@@ -0,0 +1,152 @@
+import { AnalysisField, AudioAnalysisResult, TimeWindow } from '@/types';
+import { decodePcm, ANALYSIS_SAMPLE_RATE } from '../decode';
+import { PcmAudio, round } from '../dsp';
+import { detectAudioBounds, sliceEnvelope } from '../bounds';
+import { computeOnsetEnvelope, estimateTempo, computeTempoCurve } from '../tempo';
+import { computeChromagram, averageChroma, estimateKey, computeKeyTimeline } from '../key';
+import { convertToCamelot } from '../musicalKey';
+import { trackBeats } from '../beats';
+import { segmentStructure } from '../structure';
+import { computeOverviewPeaks, computeWaveformPyramid } from '../waveform';
+import { computeEnergyCurve, overallEnergy } from '../energy';
+import { computeDescriptors } from '../descriptors';
+import { AnalysisProvider, ProviderResult } from './types';
+
+// Upper bound of the band used to find kick drums for downbeat detection
+const DOWNBEAT_BAND_HZ = 150;
+
+// Energy is measured from the signal, but its calibration is a judgement call
+const ENERGY_CONFIDENCE = 0.8;
+
+// Descriptors are heuristics over spectral shape and rhythm
+const DESCRIPTOR_CONFIDENCE = 0.6;
+
+// Level-based bounds are reliable; the speech heuristic less so
+const BOUNDS_CONFIDENCE = 0.7;
+
+/**
+ * In-process analysis of the decoded signal
+ */
+export class LocalProvider implements AnalysisProvider {
+  readonly name = 'local';
+  readonly version = '1.2.0';
+  readonly fields: AnalysisField[] = ['bpm', 'tempoCurve', 'key', 'keyTimeline', 'energy', 'descriptors', 'beatGrid', 'structure', 'waveform', 'bounds'];
+  readonly supportsWindows = true;
+  readonly remote = false;
+
+  async analyze(audioUrl: string, window?: TimeWindow): Promise<ProviderResult> {
+    const audio = window
+      ? await decodePcm(audioUrl, ANALYSIS_SAMPLE_RATE, window.end - window.start, window.start)
+      : await decodePcm(audioUrl);
+    const result = this.analyzePcm(audio);
+    return window ? { ...result, values: shiftTimes(result.values, window.start) } : result;
+  }
+
+  /**
+   * Analyze already decoded mono audio; times are relative to its first sample
+   */
+  analyzePcm(audio: PcmAudio): ProviderResult {
+    const envelope = computeOnsetEnvelope(audio);
+    const bounds = detectAudioBounds(audio, envelope);
+
+    // Tempo, beats, key and descriptors only look at the music itself; times
+    // stay on the track's clock because the sliced envelopes keep their offset
+    const musicEnvelope = sliceEnvelope(envelope, bounds);
+    const music = {
+      samples: audio.samples.subarray(
+        Math.floor(bounds.audioStart * audio.sampleRate),
+        Math.ceil(bounds.audioEnd * audio.sampleRate)
+      ),
+      sampleRate: audio.sampleRate
+    };
+
+    const tempo = estimateTempo(musicEnvelope);
+    const tempoCurve = tempo ? computeTempoCurve(musicEnvelope, tempo.bpm) : null;
+    const chromagram = computeChromagram(audio);
+    const key = estimateKey(averageChroma(
+      chromagram,
+      Math.max(0, Math.round((bounds.audioStart - chromagram.timeOffset) * chromagram.frameRate)),
+      Math.round((bounds.audioEnd - chromagram.timeOffset) * chromagram.frameRate)
+    ));
+    const keyTimeline = computeKeyTimeline(chromagram, bounds.audioStart, bounds.audioEnd);
+    const beats = tempo
+      ? trackBeats(musicEnvelope, tempo.bpm, sliceEnvelope(computeOnsetEnvelope(audio, DOWNBEAT_BAND_HZ), bounds))
+      : null;
+    const structure = beats ? segmentStructure(audio, beats.downbeats, chromagram) : null;
+    const energyCurve = computeEnergyCurve(audio, envelope);
+    const descriptors = computeDescriptors(music, musicEnvelope, beats?.beats, tempo?.bpm);
+
+    const values: Partial<AudioAnalysisResult> = {
+      bpm: tempo?.bpm,
+      tempoConfidence: tempo?.confidence,
+      tempoCurve: tempoCurve ?? undefined,
+      beatGrid: tempo && beats ? {
+        bpm: tempo.bpm,
+        firstBeatOffset: beats.beats[0],
+        beatsPerBar: beats.beatsPerBar,
+        beats: beats.beats,
+        downbeats: beats.downbeats
+      } : undefined,
+      structure: structure?.segments,
+      cuePoints: structure?.cuePoints,
+      waveformPeaks: computeOverviewPeaks(audio, undefined, bounds),
+      waveformLevels: computeWaveformPyramid(audio),
+      musicalKey: key?.musicalKey,
+      camelotKey: key ? convertToCamelot(key.musicalKey) : undefined,
+      keyConfidence: key?.confidence,
+      keyModulations: keyTimeline?.modulations,
+      introKey: keyTimeline?.introKey,
+      outroKey: keyTimeline?.outroKey,
+      energyLevel: energyCurve ? overallEnergy(energyCurve) : undefined,
+      energyCurve: energyCurve ?? undefined,
+      descriptors: descriptors ?? undefined,
+      audioStart: bounds.audioStart,
+      audioEnd: bounds.audioEnd
+    };
+
+    return {
+      values,
+      confidence: {
+        bpm: tempo?.confidence,
+        tempoCurve: tempo?.confidence,
+        key: key?.confidence,
+        keyTimeline: keyTimeline ? key?.confidence : undefined,
+        energy: energyCurve ? ENERGY_CONFIDENCE : undefined,
+        descriptors: descriptors ? DESCRIPTOR_CONFIDENCE : undefined,
+        // The grid and sections are only as good as the tempo they were built on
+        beatGrid: tempo?.confidence,
+        structure: tempo?.confidence,
+        waveform: 1,
+        bounds: BOUNDS_CONFIDENCE
+      }
+    };
+  }
+}
+
+/**
+ * Move times measured from the start of a decoded window onto the track's clock
+ */
+function shiftTimes(values: Partial<AudioAnalysisResult>, offset: number): Partial<AudioAnalysisResult> {
+  const shift = (time: number) => round(time + offset, 3);
+  const { beatGrid, structure, cuePoints, tempoCurve, energyCurve, keyModulations } = values;
+
+  return {
+    ...values,
+    beatGrid: beatGrid && {
+      ...beatGrid,
+      firstBeatOffset: shift(beatGrid.firstBeatOffset),
+      beats: beatGrid.beats.map(shift),
+      downbeats: beatGrid.downbeats.map(shift)
+    },
+    structure: structure?.map(segment => ({ ...segment, start: shift(segment.start), end: shift(segment.end) })),
+    cuePoints: cuePoints?.map(cue => ({ ...cue, time: shift(cue.time) })),
+    tempoCurve: tempoCurve && {
+      ...tempoCurve,
+      points: tempoCurve.points.map(point => ({ ...point, time: shift(point.time) }))
+    },
+    energyCurve: energyCurve && { ...energyCurve, start: offset },
+    keyModulations: keyModulations?.map(modulation => ({ ...modulation, time: shift(modulation.time) })),
+    audioStart: values.audioStart !== undefined ? shift(values.audioStart) : undefined,
+    audioEnd: values.audioEnd !== undefined ? shift(values.audioEnd) : undefined
+  };
+}
@@ -0,0 +1,46 @@
+import { AnalysisField, TimeWindow } from '@/types';
+import { LoudnessMeter, LoudnessResult } from '../loudness';
+import { streamPcm } from '../decode';
+import { AnalysisProvider, ProviderResult } from './types';
+
+// Loudness is measured on the stereo signal at the standard's reference rate
+const LOUDNESS_SAMPLE_RATE = 48000;
+
+// A direct measurement, so it should override any estimate
+const LOUDNESS_CONFIDENCE = 0.95;
+
+/**
+ * EBU R128 loudness, short-term maximum, true peak and loudness range
+ */
+export class LoudnessProvider implements AnalysisProvider {
+  readonly name = 'ebu-r128';
+  readonly version = '1.0.0';
+  readonly fields: AnalysisField[] = ['loudness'];
+  readonly supportsWindows = true;
+  readonly remote = false;
+
+  async analyze(audioUrl: string, window?: TimeWindow): Promise<ProviderResult> {
+    const loudness = await this.measure(audioUrl, window);
+
+    if (loudness.integrated === null) {
+      return { values: {}, confidence: {} };
+    }
+
+    return {
+      values: {
+        loudness: loudness.integrated,
+        loudnessShortTermMax: loudness.shortTermMax ?? undefined,
+        truePeak: loudness.truePeak ?? undefined,
+        loudnessRange: loudness.range ?? undefined
+      },
+      confidence: { loudness: LOUDNESS_CONFIDENCE }
+    };
+  }
+
+  private async measure(audioUrl: string, window?: TimeWindow): Promise<LoudnessResult> {
+    const channels = 2;
+    const meter = new LoudnessMeter(LOUDNESS_SAMPLE_RATE, channels);
+    await streamPcm(audioUrl, { sampleRate: LOUDNESS_SAMPLE_RATE, channels, window }, samples => meter.process(samples));
+    return meter.getResult();
+  }
+}
@@ -0,0 +1,41 @@
+import { AnalysisField, AudioQuality, TimeWindow } from '@/types';
+import { QualityMeter } from '../quality';
+import { streamPcm } from '../decode';
+import { AnalysisProvider, ProviderResult } from './types';
+
+// High enough to see every lossy encoder's low-pass below Nyquist
+const QUALITY_SAMPLE_RATE = 44100;
+
+// Measured from the signal itself; only the bitrate is an inference
+const QUALITY_CONFIDENCE = 0.9;
+
+/**
+ * Source quality: bandwidth cutoff, clipping, limiting, stereo content and DC offset
+ */
+export class QualityProvider implements AnalysisProvider {
+  readonly name = 'quality';
+  readonly version = '1.0.0';
+  readonly fields: AnalysisField[] = ['quality'];
+  readonly supportsWindows = true;
+  readonly remote = false;
+
+  async analyze(audioUrl: string, window?: TimeWindow): Promise<ProviderResult> {
+    const quality = await this.measure(audioUrl, window);
+
+    if (!quality) {
+      return { values: {}, confidence: {} };
+    }
+
+    return {
+      values: { quality },
+      confidence: { quality: QUALITY_CONFIDENCE }
+    };
+  }
+
+  private async measure(audioUrl: string, window?: TimeWindow): Promise<AudioQuality | null> {
+    const channels = 2;
+    const meter = new QualityMeter(QUALITY_SAMPLE_RATE, channels);
+    await streamPcm(audioUrl, { sampleRate: QUALITY_SAMPLE_RATE, channels, window }, samples => meter.process(samples));
+    return meter.getResult();
+  }
+}
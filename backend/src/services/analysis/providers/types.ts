@@ -0,0 +1,22 @@
+import { AnalysisField, AudioAnalysisResult, TimeWindow } from '@/types';
+
+export interface ProviderResult {
+  values: Partial<AudioAnalysisResult>;
+  confidence: Partial<Record<AnalysisField, number>>; // 0-1 per field the provider returned
+}
+
+/**
+ * A source of audio analysis. Providers declare the fields they can produce
+ * and report how confident they are in each one; fusion decides which wins.
+ */
+export interface AnalysisProvider {
+  readonly name: string;
+  readonly version: string;
+  readonly fields: AnalysisField[];
+  // Whether analyze() can look at a window of the audio; recognition services cannot
+  readonly supportsWindows: boolean;
+  // Whether analyze() sends the audio to a third party; uploads only reach these on opt-in
+  readonly remote: boolean;
+  // Times in the result are on the track's clock, also when analyzing a window
+  analyze(audioUrl: string, window?: TimeWindow): Promise<ProviderResult>; // remote URL or local file path
+}
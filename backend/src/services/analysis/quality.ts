@@ -0,0 +1,199 @@
+import { AudioQuality, QualityGrade } from '@/types';
+import { fft, hannWindow, clamp, round } from './dsp';
+
+const FRAME_SIZE = 8192;
+
+// Frames quieter than this (dBFS RMS) say nothing about the source's bandwidth
+const SILENCE_DB = -60;
+
+// Spectrum is compared in blocks this wide; a lossy encoder's low-pass drops
+// at least CUTOFF_DROP_DB from one kilohertz below it to one above
+const BLOCK_HZ = 200;
+const CUTOFF_SEARCH_FROM_HZ = 5000;
+const CUTOFF_DROP_DB = 25;
+
+// Encoder low-pass frequencies and the bitrates that use them (LAME/AAC defaults)
+const LOWPASS_BITRATES: [number, number][] = [
+  [11000, 64],
+  [15000, 96],
+  [16500, 128],
+  [17800, 160],
+  [19000, 192],
+  [19800, 256]
+];
+
+// Runs of this many samples at full scale are clipping, not a peak that touches it
+const CLIP_LEVEL = 0.999;
+const MIN_CLIP_RUN = 3;
+
+// Samples within this much of the track's peak count as limited
+const LIMIT_MARGIN_DB = 0.1;
+const HISTOGRAM_BINS = 10000;
+
+// Side/mid energy ratio below which the channels carry the same signal
+const MONO_WIDTH = 0.001;
+
+const GRADE_THRESHOLDS: [number, QualityGrade][] = [[90, 'A'], [75, 'B'], [60, 'C'], [40, 'D']];
+
+/**
+ * Streaming source-quality measurement: effective bandwidth (to catch
+ * upscaled low-bitrate sources), clipping, limiting, stereo content and DC
+ * offset, combined into a 0-100 score and a letter grade
+ */
+export class QualityMeter {
+  private window = hannWindow(FRAME_SIZE);
+  private frame = new Float64Array(FRAME_SIZE);
+  private frameFill = 0;
+  private spectrum = new Float64Array(FRAME_SIZE / 2 + 1);
+  private spectrumFrames = 0;
+
+  private histogram = new Uint32Array(HISTOGRAM_BINS + 1);
+  private clipRuns: number[];
+  private clipped = 0;
+  private sums: number[];
+  private midEnergy = 0;
+  private sideEnergy = 0;
+  private frames = 0;
+
+  constructor(private sampleRate: number, private channels: number) {
+    this.clipRuns = new Array(channels).fill(0);
+    this.sums = new Array(channels).fill(0);
+  }
+
+  process(interleaved: Float32Array): void {
+    for (let i = 0; i + this.channels <= interleaved.length; i += this.channels) {
+      let mono = 0;
+      for (let c = 0; c < this.channels; c++) {
+        const x = interleaved[i + c];
+        const magnitude = Math.abs(x);
+        mono += x;
+        this.sums[c] += x;
+        this.histogram[Math.min(HISTOGRAM_BINS, Math.floor(magnitude * HISTOGRAM_BINS))]++;
+        this.trackClipping(c, magnitude);
+      }
+
+      if (this.channels >= 2) {
+        const left = interleaved[i];
+        const right = interleaved[i + 1];
+        this.midEnergy += ((left + right) / 2) ** 2;
+        this.sideEnergy += ((left - right) / 2) ** 2;
+      }
+
+      this.frame[this.frameFill++] = mono / this.channels;
+      if (this.frameFill === FRAME_SIZE) {
+        this.addSpectrumFrame();
+        this.frameFill = 0;
+      }
+      this.frames++;
+    }
+  }
+
+  getResult(): AudioQuality | null {
+    if (this.frames === 0) return null;
+    for (let c = 0; c < this.channels; c++) this.endClipRun(c);
+
+    const samples = this.frames * this.channels;
+    const bandwidthHz = this.bandwidth();
+    const estimatedBitrate = LOWPASS_BITRATES.find(([cutoff]) => bandwidthHz <= cutoff)?.[1];
+    const clippedPercent = (this.clipped / samples) * 100;
+    const limitedPercent = (this.samplesNearPeak() / samples) * 100;
+    const stereoWidth = this.midEnergy > 0 ? this.sideEnergy / this.midEnergy : 0;
+    const channels = this.channels >= 2 && stereoWidth >= MONO_WIDTH ? 'stereo' : 'mono';
+    const dcOffset = Math.max(...this.sums.map(sum => Math.abs(sum / this.frames)));
+
+    // Missing high end costs the most: it cannot be recovered and is audible on club systems
+    let score = 100;
+    if (estimatedBitrate !== undefined) {
+      score -= estimatedBitrate <= 64 ? 50 : estimatedBitrate <= 96 ? 35 : estimatedBitrate <= 128 ? 20 : 8;
+    }
+    score -= clamp(clippedPercent * 40, 0, 40);
+    score -= channels === 'mono' ? 10 : 0;
+    score -= clamp(dcOffset * 1000, 0, 10);
+    score = round(clamp(score, 0, 100), 1);
+
+    return {
+      grade: GRADE_THRESHOLDS.find(([threshold]) => score >= threshold)?.[1] ?? 'F',
+      score,
+      bandwidthHz,
+      estimatedBitrate,
+      clippedPercent: round(clippedPercent, 3),
+      limitedPercent: round(limitedPercent, 3),
+      channels,
+      stereoWidth: round(stereoWidth, 4),
+      dcOffset: round(dcOffset, 5)
+    };
+  }
+
+  private trackClipping(channel: number, magnitude: number): void {
+    if (magnitude >= CLIP_LEVEL) {
+      this.clipRuns[channel]++;
+    } else {
+      this.endClipRun(channel);
+    }
+  }
+
+  private endClipRun(channel: number): void {
+    if (this.clipRuns[channel] >= MIN_CLIP_RUN) this.clipped += this.clipRuns[channel];
+    this.clipRuns[channel] = 0;
+  }
+
+  private addSpectrumFrame(): void {
+    let energy = 0;
+    for (let i = 0; i < FRAME_SIZE; i++) energy += this.frame[i] * this.frame[i];
+    if (10 * Math.log10(energy / FRAME_SIZE + 1e-12) < SILENCE_DB) return;
+
+    const re = new Float64Array(FRAME_SIZE);
+    const im = new Float64Array(FRAME_SIZE);
+    for (let i = 0; i < FRAME_SIZE; i++) re[i] = this.frame[i] * this.window[i];
+    fft(re, im);
+
+    for (let k = 0; k <= FRAME_SIZE / 2; k++) this.spectrum[k] += re[k] * re[k] + im[k] * im[k];
+    this.spectrumFrames++;
+  }
+
+  /**
+   * Frequency of the steepest drop in the average spectrum, if it is steep
+   * enough to be an encoder's low-pass; otherwise the full band
+   */
+  private bandwidth(): number {
+    const nyquist = this.sampleRate / 2;
+    if (this.spectrumFrames === 0) return Math.round(nyquist);
+
+    const binHz = this.sampleRate / FRAME_SIZE;
+    const blockBins = Math.max(1, Math.round(BLOCK_HZ / binHz));
+    const blocks: number[] = [];
+    for (let start = 0; start + blockBins <= this.spectrum.length; start += blockBins) {
+      let power = 0;
+      for (let k = start; k < start + blockBins; k++) power += this.spectrum[k];
+      blocks.push(10 * Math.log10(power / blockBins / this.spectrumFrames + 1e-20));
+    }
+
+    const span = Math.round(1000 / BLOCK_HZ);
+    const average = (from: number, to: number) => {
+      const slice = blocks.slice(Math.max(0, from), Math.min(blocks.length, to));
+      return slice.reduce((sum, db) => sum + db, 0) / slice.length;
+    };
+
+    let cutoff = Math.round(nyquist);
+    let steepest = CUTOFF_DROP_DB;
+    for (let b = Math.round(CUTOFF_SEARCH_FROM_HZ / BLOCK_HZ); b < blocks.length - 1; b++) {
+      const drop = average(b - span, b) - average(b, b + span);
+      if (drop >= steepest) {
+        steepest = drop;
+        cutoff = b * BLOCK_HZ;
+      }
+    }
+    return cutoff;
+  }
+
+  private samplesNearPeak(): number {
+    let peakBin = HISTOGRAM_BINS;
+    while (peakBin > 0 && this.histogram[peakBin] === 0) peakBin--;
+    if (peakBin === 0) return 0;
+
+    const threshold = Math.floor(peakBin * 10 ** (-LIMIT_MARGIN_DB / 20));
+    let count = 0;
+    for (let bin = threshold; bin <= HISTOGRAM_BINS; bin++) count += this.histogram[bin];
+    return count;
+  }
+}
@@ -0,0 +1,255 @@
+import { EnergyShape, KeyRelation, SetOrder, SetTransition, TempoRelation, Track } from '@/types';
+import { convertToCamelot } from './musicalKey';
+import { compatibleKeys, matchTempo, OCTAVE_TEMPO_PENALTY } from './harmonic';
+import { mean, median, round } from './dsp';
+
+export interface SetOrderOptions {
+  energyShape: EnergyShape;
+  firstTrackId?: string;
+  lastTrackId?: string;
+}
+
+interface PairScore {
+  keyScore: number;
+  tempoScore: number;
+  keyRelation?: KeyRelation;
+  tempoRelation?: TempoRelation;
+  warnings: string[];
+}
+
+// Share of a transition's score from the key move, the tempo step and the energy shape
+const KEY_WEIGHT = 0.4;
+const TEMPO_WEIGHT = 0.35;
+const ENERGY_WEIGHT = 0.25;
+
+// Tempo steps beyond this (relative) need more than a pitch fader nudge
+const MAX_TEMPO_STEP = 0.08;
+
+// Score for a part that cannot be judged because the key, tempo or energy was not detected
+const UNKNOWN_SCORE = 0.5;
+
+// Energy changes between neighbours bigger than this are flagged
+const ENERGY_JUMP = 0.35;
+
+// Where a peak-and-release set peaks (share of the set), and how much of the rise it gives back
+const PEAK_POSITION = 0.7;
+const RELEASE_DEPTH = 0.5;
+
+// Local search passes; each pass tries every segment reversal and move
+const MAX_PASSES = 20;
+
+/**
+ * Find a play order that maximizes the transition scores: greedy from every
+ * possible opener, then segment reversals and single-track moves until
+ * nothing improves. Pinned first and last tracks stay in place.
+ */
+export function optimizeSetOrder(tracks: Track[], options: SetOrderOptions): SetOrder {
+  const count = tracks.length;
+  const targets = energyTargets(tracks, options.energyShape);
+  const pairs = tracks.map(from => tracks.map(to => (from === to ? null : scorePair(from, to))));
+  const first = tracks.findIndex(track => track.id === options.firstTrackId);
+  const last = tracks.findIndex(track => track.id === options.lastTrackId);
+
+  const energyFit = (track: number, position: number) => fitEnergy(tracks[track], targets[position]);
+  const step = (from: number, to: number, position: number) => {
+    const pair = pairs[from][to] as PairScore;
+    return KEY_WEIGHT * pair.keyScore + TEMPO_WEIGHT * pair.tempoScore + ENERGY_WEIGHT * energyFit(to, position);
+  };
+  const total = (order: number[]) => {
+    let sum = ENERGY_WEIGHT * energyFit(order[0], 0);
+    for (let i = 1; i < order.length; i++) sum += step(order[i - 1], order[i], i);
+    return sum;
+  };
+
+  const openers = first >= 0 ? [first] : tracks.map((_, i) => i).filter(i => i !== last || count === 1);
+  let best: number[] = [];
+  let bestScore = -Infinity;
+  for (const opener of openers) {
+    const order = greedyOrder(opener, last, count, step);
+    const score = total(order);
+    if (score > bestScore) {
+      best = order;
+      bestScore = score;
+    }
+  }
+  best = improveOrder(best, total, first >= 0 ? 1 : 0, last >= 0 ? count - 2 : count - 1);
+
+  const transitions: SetTransition[] = [];
+  for (let i = 1; i < best.length; i++) {
+    const from = tracks[best[i - 1]];
+    const to = tracks[best[i]];
+    const { warnings, ...pair } = pairs[best[i - 1]][best[i]] as PairScore;
+    const energyScore = energyFit(best[i], i);
+    const energyWarning = describeEnergyJump(from, to);
+
+    transitions.push({
+      fromTrackId: from.id,
+      toTrackId: to.id,
+      score: round(step(best[i - 1], best[i], i), 3),
+      ...pair,
+      keyScore: round(pair.keyScore, 3),
+      tempoScore: round(pair.tempoScore, 3),
+      energyScore: round(energyScore, 3),
+      warnings: energyWarning ? [...warnings, energyWarning] : warnings
+    });
+  }
+
+  const warnings: string[] = [];
+  if (targets.every(target => target === undefined)) {
+    warnings.push('No energy levels detected; the energy shape was not applied');
+  }
+
+  return {
+    trackIds: best.map(index => tracks[index].id),
+    energyShape: options.energyShape,
+    score: transitions.length > 0 ? round(mean(transitions.map(transition => transition.score)), 3) : 0,
+    transitions,
+    warnings
+  };
+}
+
+/**
+ * Key and tempo parts of playing `to` after `from`: the Camelot move from the
+ * outgoing key to the incoming one, and the tempo step (half/double time allowed)
+ */
+function scorePair(from: Track, to: Track): PairScore {
+  const warnings: string[] = [];
+  const pair: PairScore = { keyScore: UNKNOWN_SCORE, tempoScore: UNKNOWN_SCORE, warnings };
+
+  const fromKey = convertToCamelot(from.outroKey || from.musicalKey);
+  const toKey = convertToCamelot(to.introKey || to.musicalKey);
+  if (fromKey && toKey) {
+    const move = compatibleKeys(fromKey, { energyBoost: true }).find(key => key.camelotKey === toKey);
+    pair.keyScore = move?.score ?? 0;
+    pair.keyRelation = move?.relation;
+    if (!move) warnings.push(`Key clash: ${fromKey} → ${toKey}`);
+  } else {
+    warnings.push(`No key detected for "${(fromKey ? to : from).title}"`);
+  }
+
+  if (from.bpm && to.bpm) {
+    const tempo = matchTempo(from.bpm, to.bpm, MAX_TEMPO_STEP);
+    if (tempo) {
+      const octave = tempo.relation === 'same' ? 1 : OCTAVE_TEMPO_PENALTY;
+      pair.tempoScore = (1 - tempo.difference / MAX_TEMPO_STEP) * octave;
+      pair.tempoRelation = tempo.relation;
+    } else {
+      pair.tempoScore = 0;
+      warnings.push(`Tempo jump: ${round(from.bpm, 1)} → ${round(to.bpm, 1)} BPM`);
+    }
+  } else {
+    warnings.push(`No tempo detected for "${(from.bpm ? to : from).title}"`);
+  }
+
+  return pair;
+}
+
+/**
+ * Target energy level at each position of the set, spanning the tracks' own
+ * energy range. Undefined when no track has an energy level.
+ */
+function energyTargets(tracks: Track[], shape: EnergyShape): (number | undefined)[] {
+  const levels = tracks.map(track => track.energyLevel).filter((level): level is number => level !== undefined);
+  if (levels.length === 0) return tracks.map(() => undefined);
+
+  const low = Math.min(...levels);
+  const high = Math.max(...levels);
+  const flat = median(levels);
+
+  return tracks.map((_, position) => {
+    const progress = tracks.length > 1 ? position / (tracks.length - 1) : 0;
+    switch (shape) {
+      case 'build_up':
+        return low + (high - low) * progress;
+      case 'peak_and_release':
+        return progress <= PEAK_POSITION
+          ? low + (high - low) * (progress / PEAK_POSITION)
+          : high - (high - low) * RELEASE_DEPTH * ((progress - PEAK_POSITION) / (1 - PEAK_POSITION));
+      default:
+        return flat;
+    }
+  });
+}
+
+function fitEnergy(track: Track, target: number | undefined): number {
+  if (target === undefined || track.energyLevel === undefined) return UNKNOWN_SCORE;
+  return 1 - Math.abs(track.energyLevel - target);
+}
+
+function describeEnergyJump(from: Track, to: Track): string | null {
+  if (from.energyLevel === undefined || to.energyLevel === undefined) return null;
+  if (Math.abs(to.energyLevel - from.energyLevel) <= ENERGY_JUMP) return null;
+  const direction = to.energyLevel > from.energyLevel ? 'jump' : 'drop';
+  return `Energy ${direction}: ${round(from.energyLevel, 2)} → ${round(to.energyLevel, 2)}`;
+}
+
+/**
+ * Nearest-neighbour order from `opener`, keeping `last` (if pinned) for the end
+ */
+function greedyOrder(
+  opener: number,
+  last: number,
+  count: number,
+  step: (from: number, to: number, position: number) => number
+): number[] {
+  const order = [opener];
+  const remaining = new Set(Array.from({ length: count }, (_, i) => i));
+  remaining.delete(opener);
+  if (last >= 0) remaining.delete(last);
+
+  while (remaining.size > 0) {
+    const from = order[order.length - 1];
+    let next = -1;
+    let nextScore = -Infinity;
+    for (const candidate of remaining) {
+      const score = step(from, candidate, order.length);
+      if (score > nextScore) {
+        next = candidate;
+        nextScore = score;
+      }
+    }
+    order.push(next);
+    remaining.delete(next);
+  }
+
+  if (last >= 0 && last !== opener) order.push(last);
+  return order;
+}
+
+/**
+ * Reverse segments and move single tracks within positions `from`..`to`
+ * while that raises the total score
+ */
+function improveOrder(order: number[], total: (order: number[]) => number, from: number, to: number): number[] {
+  let best = order;
+  let bestScore = total(order);
+
+  for (let pass = 0; pass < MAX_PASSES; pass++) {
+    let improved = false;
+    for (let i = from; i < to; i++) {
+      for (let j = i + 1; j <= to; j++) {
+        for (const candidate of [reverseSegment(best, i, j), moveTrack(best, i, j), moveTrack(best, j, i)]) {
+          const score = total(candidate);
+          if (score > bestScore + 1e-9) {
+            best = candidate;
+            bestScore = score;
+            improved = true;
+          }
+        }
+      }
+    }
+    if (!improved) break;
+  }
+  return best;
+}
+
+function reverseSegment(order: number[], from: number, to: number): number[] {
+  return [...order.slice(0, from), ...order.slice(from, to + 1).reverse(), ...order.slice(to + 1)];
+}
+
+function moveTrack(order: number[], from: number, to: number): number[] {
+  const moved = [...order];
+  const [track] = moved.splice(from, 1);
+  moved.splice(to, 0, track);
+  return moved;
+}
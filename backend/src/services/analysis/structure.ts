@@ -0,0 +1,259 @@
+import { StructureSegment, CuePoint } from '@/types';
+import { PcmAudio, stft, mean, clamp, round } from './dsp';
+import { Chromagram } from './key';
+
+const BAND_FRAME_SIZE = 2048;
+const BAND_HOP_SIZE = 1024;
+const LOW_BAND_HZ = 200;
+const HIGH_BAND_HZ = 4000;
+
+const NOVELTY_HALF_WIDTH = 4; // bars on each side of a candidate boundary
+const MIN_SEGMENT_BARS = 4;
+const PHRASE_BARS = 4;
+
+export interface StructureResult {
+  segments: StructureSegment[];
+  cuePoints: CuePoint[];
+}
+
+interface BarFeatures {
+  start: number;
+  end: number;
+  energy: number; // dB
+  lowRatio: number;
+  highRatio: number;
+  chroma: number[];
+}
+
+/**
+ * Segment a track into labeled sections at bar resolution. Boundaries come
+ * from a checkerboard novelty curve over bar-level timbre/harmony features
+ * combined with jumps in energy; labels come from each section's energy
+ * relative to the rest of the track.
+ */
+export function segmentStructure(
+  audio: PcmAudio,
+  downbeats: number[],
+  chromagram: Chromagram
+): StructureResult | null {
+  if (downbeats.length < MIN_SEGMENT_BARS * 2) return null;
+
+  const duration = audio.samples.length / audio.sampleRate;
+  const bars = computeBarFeatures(audio, downbeats, chromagram, duration);
+  const boundaries = findBoundaries(bars);
+
+  const energies = bars.map(bar => bar.energy);
+  const floor = percentile(energies, 0.05);
+  const ceiling = percentile(energies, 0.95);
+  const relative = (db: number) => (ceiling > floor ? clamp((db - floor) / (ceiling - floor), 0, 1) : 1);
+
+  const segments: StructureSegment[] = [];
+  const rises: number[] = [];
+  for (let i = 0; i < boundaries.length - 1; i++) {
+    const from = boundaries[i];
+    const to = boundaries[i + 1];
+    const slice = bars.slice(from, to);
+    const half = Math.floor(slice.length / 2);
+    rises.push(
+      mean(slice.slice(half).map(bar => relative(bar.energy))) - mean(slice.slice(0, half).map(bar => relative(bar.energy)))
+    );
+    segments.push({
+      label: 'verse',
+      start: round(i === 0 ? 0 : slice[0].start, 3),
+      end: round(i === boundaries.length - 2 ? duration : slice[slice.length - 1].end, 3),
+      bars: to - from,
+      energy: round(mean(slice.map(bar => relative(bar.energy))), 2)
+    });
+  }
+
+  labelSegments(segments, rises);
+
+  return { segments, cuePoints: suggestCuePoints(segments, downbeats) };
+}
+
+function computeBarFeatures(
+  audio: PcmAudio,
+  downbeats: number[],
+  chromagram: Chromagram,
+  duration: number
+): BarFeatures[] {
+  const binHz = audio.sampleRate / BAND_FRAME_SIZE;
+  const lowBin = Math.round(LOW_BAND_HZ / binHz);
+  const highBin = Math.round(HIGH_BAND_HZ / binHz);
+  const frameRate = audio.sampleRate / BAND_HOP_SIZE;
+  const frameOffset = BAND_FRAME_SIZE / 2 / audio.sampleRate;
+
+  const bandFrames: Array<[number, number, number]> = [];
+  stft(audio.samples, BAND_FRAME_SIZE, BAND_HOP_SIZE, (magnitudes) => {
+    let low = 0;
+    let mid = 0;
+    let high = 0;
+    for (let k = 1; k < magnitudes.length; k++) {
+      const power = magnitudes[k] * magnitudes[k];
+      if (k < lowBin) low += power;
+      else if (k < highBin) mid += power;
+      else high += power;
+    }
+    bandFrames.push([low, mid, high]);
+  });
+
+  const barLength = downbeats.length > 1 ? downbeats[1] - downbeats[0] : 2;
+  return downbeats.map((start, index) => {
+    const end = index + 1 < downbeats.length ? downbeats[index + 1] : Math.min(duration, start + barLength);
+
+    let low = 0;
+    let mid = 0;
+    let high = 0;
+    const firstFrame = Math.max(0, Math.floor((start - frameOffset) * frameRate));
+    const lastFrame = Math.min(bandFrames.length, Math.ceil((end - frameOffset) * frameRate));
+    for (let f = firstFrame; f < lastFrame; f++) {
+      low += bandFrames[f][0];
+      mid += bandFrames[f][1];
+      high += bandFrames[f][2];
+    }
+    const frames = Math.max(1, lastFrame - firstFrame);
+    const total = low + mid + high;
+
+    const chromaStart = Math.max(0, Math.floor((start - chromagram.timeOffset) * chromagram.frameRate));
+    const chromaEnd = Math.max(chromaStart + 1, Math.ceil((end - chromagram.timeOffset) * chromagram.frameRate));
+    const chroma = new Array<number>(12).fill(0);
+    for (let f = chromaStart; f < Math.min(chromaEnd, chromagram.frames.length); f++) {
+      for (let pc = 0; pc < 12; pc++) chroma[pc] += chromagram.frames[f][pc];
+    }
+
+    return {
+      start,
+      end,
+      energy: 10 * Math.log10(total / frames + 1e-12),
+      lowRatio: total > 0 ? low / total : 0,
+      highRatio: total > 0 ? high / total : 0,
+      chroma
+    };
+  });
+}
+
+/**
+ * Bar indices where sections start, including 0 and bars.length
+ */
+function findBoundaries(bars: BarFeatures[]): number[] {
+  const vectors = bars.map(bar => normalize([...normalize(bar.chroma), bar.lowRatio * 2, bar.highRatio * 2]));
+  const energyDb = bars.map(bar => bar.energy);
+  const n = bars.length;
+  const w = NOVELTY_HALF_WIDTH;
+
+  // Checkerboard kernel novelty over the bar self-similarity matrix
+  const timbreNovelty = new Array<number>(n).fill(0);
+  const energyNovelty = new Array<number>(n).fill(0);
+  for (let i = w; i <= n - w; i++) {
+    let score = 0;
+    for (let a = i - w; a < i + w; a++) {
+      for (let b = i - w; b < i + w; b++) {
+        const sameSide = (a < i) === (b < i);
+        score += (sameSide ? 1 : -1) * dot(vectors[a], vectors[b]);
+      }
+    }
+    timbreNovelty[i] = Math.max(0, score);
+    energyNovelty[i] = Math.abs(mean(energyDb.slice(i, i + w)) - mean(energyDb.slice(i - w, i)));
+  }
+
+  const novelty = combine(timbreNovelty, energyNovelty);
+  const threshold = mean(novelty) + 0.5 * standardDeviation(novelty);
+
+  // Local maxima above threshold, preferring phrase-aligned bars
+  const candidates: Array<{ bar: number; score: number }> = [];
+  for (let i = MIN_SEGMENT_BARS; i <= n - MIN_SEGMENT_BARS; i++) {
+    const isPeak = novelty[i] >= novelty[i - 1] && novelty[i] >= (novelty[i + 1] ?? 0);
+    if (isPeak && novelty[i] > threshold) {
+      const snapped = Math.round(i / PHRASE_BARS) * PHRASE_BARS;
+      const bar = Math.abs(snapped - i) <= 1 && snapped > 0 && snapped < n ? snapped : i;
+      candidates.push({ bar, score: novelty[i] });
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+  const chosen: number[] = [];
+  for (const candidate of candidates) {
+    if (chosen.every(bar => Math.abs(bar - candidate.bar) >= MIN_SEGMENT_BARS)
+      && candidate.bar >= MIN_SEGMENT_BARS && n - candidate.bar >= MIN_SEGMENT_BARS) {
+      chosen.push(candidate.bar);
+    }
+  }
+
+  return [0, ...chosen.sort((a, b) => a - b), n];
+}
+
+/**
+ * `rises` holds, per segment, how much energy grows from its first to its
+ * second half
+ */
+function labelSegments(segments: StructureSegment[], rises: number[]): void {
+  const HIGH = 0.75;
+  const LOW = 0.45;
+
+  segments.forEach(segment => {
+    if (segment.energy >= HIGH) segment.label = 'drop';
+    else if (segment.energy < LOW) segment.label = 'breakdown';
+    else segment.label = 'verse';
+  });
+
+  // A section leading into a drop is its build-up if energy climbs through it
+  for (let i = 0; i < segments.length - 1; i++) {
+    const leadsIntoDrop = segments[i].label !== 'drop' && segments[i + 1].label === 'drop';
+    if (leadsIntoDrop && (segments[i].label === 'verse' || rises[i] > 0.1)) {
+      segments[i].label = 'build';
+    }
+  }
+
+  if (segments.length > 1 && segments[0].energy < HIGH) {
+    segments[0].label = 'intro';
+  }
+  const last = segments[segments.length - 1];
+  if (segments.length > 2 && last.energy < HIGH) {
+    last.label = 'outro';
+  }
+}
+
+function suggestCuePoints(segments: StructureSegment[], downbeats: number[]): CuePoint[] {
+  const cues: CuePoint[] = [{ name: 'mix_in', time: round(downbeats[0], 3) }];
+
+  const drop = segments.find(segment => segment.label === 'drop');
+  if (drop) cues.push({ name: 'first_drop', time: drop.start });
+
+  const outro = segments[segments.length - 1];
+  if (outro.label === 'outro') {
+    cues.push({ name: 'mix_out', time: outro.start });
+  } else {
+    // No distinct outro: leave 16 bars to mix out over
+    const index = Math.max(0, downbeats.length - 16);
+    cues.push({ name: 'mix_out', time: round(downbeats[index], 3) });
+  }
+
+  return cues;
+}
+
+function combine(a: number[], b: number[]): number[] {
+  const maxA = Math.max(...a) || 1;
+  const maxB = Math.max(...b) || 1;
+  return a.map((value, i) => value / maxA + b[i] / maxB);
+}
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map(value => value / length) : vector;
+}
+
+function dot(a: number[], b: number[]): number {
+  let sum = 0;
+  for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+  return sum;
+}
+
+function standardDeviation(values: number[]): number {
+  const avg = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - avg) ** 2)));
+}
+
+function percentile(values: number[], p: number): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.round(p * (sorted.length - 1)))];
+}
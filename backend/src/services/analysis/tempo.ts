@@ -0,0 +1,218 @@
+import { PcmAudio, stft, autocorrelate, parabolicPeak, movingAverage, mean, median, clamp, round } from './dsp';
+import { TempoCurve } from '@/types';
+
+const ONSET_FRAME_SIZE = 1024;
+const ONSET_HOP_SIZE = 256;
+
+// Log-normal tempo prior (centre and spread in octaves), after Ellis (2007)
+const PRIOR_CENTER_BPM = 120;
+const PRIOR_SPREAD_OCTAVES = 1;
+
+// Tempo curve windows, in seconds
+const CURVE_WINDOW_SECONDS = 10;
+const CURVE_HOP_SECONDS = 5;
+
+// Local tempo is searched this far (as a fraction) either side of the global tempo
+const CURVE_SEARCH_RANGE = 0.15;
+
+// Windows with weaker periodicity than this carry no usable tempo
+const CURVE_MIN_STRENGTH = 0.1;
+
+// Spread (10th to 90th percentile, relative to the median) above which tempo is variable
+const VARIABLE_TEMPO_SPREAD = 0.03;
+
+export interface OnsetEnvelope {
+  values: Float32Array;
+  frameRate: number; // envelope frames per second
+  timeOffset: number; // seconds at the centre of frame 0
+}
+
+export interface TempoEstimate {
+  bpm: number;
+  confidence: number; // 0-1, normalized autocorrelation at the chosen beat period
+}
+
+export interface TempoOptions {
+  minBpm?: number;
+  maxBpm?: number;
+}
+
+/**
+ * Onset strength envelope: half-wave rectified spectral flux of the
+ * log-compressed magnitude spectrum, with the slowly varying part removed.
+ * `maxFrequency` restricts the flux to a low band (e.g. kick drums).
+ */
+export function computeOnsetEnvelope(audio: PcmAudio, maxFrequency?: number): OnsetEnvelope {
+  const frameCount = Math.max(0, Math.floor((audio.samples.length - ONSET_FRAME_SIZE) / ONSET_HOP_SIZE) + 1);
+  const binCount = maxFrequency
+    ? Math.min(ONSET_FRAME_SIZE / 2 + 1, Math.ceil((maxFrequency * ONSET_FRAME_SIZE) / audio.sampleRate) + 1)
+    : ONSET_FRAME_SIZE / 2 + 1;
+  const flux = new Float32Array(frameCount);
+  let previous: Float64Array | null = null;
+
+  stft(audio.samples, ONSET_FRAME_SIZE, ONSET_HOP_SIZE, (magnitudes, frameIndex) => {
+    const current = new Float64Array(binCount);
+    let sum = 0;
+    for (let k = 0; k < binCount; k++) {
+      current[k] = Math.log1p((1000 * magnitudes[k]) / ONSET_FRAME_SIZE);
+      if (previous) {
+        const diff = current[k] - previous[k];
+        if (diff > 0) sum += diff;
+      }
+    }
+    flux[frameIndex] = sum;
+    previous = current;
+  });
+
+  const frameRate = audio.sampleRate / ONSET_HOP_SIZE;
+  const trend = movingAverage(flux, Math.round(frameRate * 0.5));
+  const values = new Float32Array(frameCount);
+  let peak = 0;
+  for (let i = 0; i < frameCount; i++) {
+    values[i] = Math.max(0, flux[i] - trend[i]);
+    peak = Math.max(peak, values[i]);
+  }
+  if (peak > 0) {
+    for (let i = 0; i < frameCount; i++) values[i] /= peak;
+  }
+
+  return { values, frameRate, timeOffset: ONSET_FRAME_SIZE / 2 / audio.sampleRate };
+}
+
+/**
+ * Estimate the dominant tempo by scoring candidate beat periods with a comb
+ * over the envelope autocorrelation, weighted by a tempo prior.
+ */
+export function estimateTempo(envelope: OnsetEnvelope, options: TempoOptions = {}): TempoEstimate | null {
+  const { minBpm = 60, maxBpm = 200 } = options;
+  const { frameRate } = envelope;
+
+  const minLag = Math.max(1, Math.floor((60 * frameRate) / maxBpm));
+  const maxLag = Math.ceil((60 * frameRate) / minBpm);
+  if (envelope.values.length < maxLag * 4) {
+    return null; // Too short to see several beat periods
+  }
+
+  const ac = normalizedAutocorrelation(envelope.values, maxLag * 4 + 2);
+  if (!ac) return null;
+
+  const scores = new Float64Array(maxLag + 2);
+  let bestLag = -1;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let comb = 0;
+    for (let k = 1; k <= 4; k++) {
+      comb += peakNear(ac, k * lag) / k;
+    }
+    const bpm = (60 * frameRate) / lag;
+    const prior = Math.exp(-0.5 * (Math.log2(bpm / PRIOR_CENTER_BPM) / PRIOR_SPREAD_OCTAVES) ** 2);
+    scores[lag] = Math.max(0, comb) * prior;
+    if (bestLag < 0 || scores[lag] > scores[bestLag]) bestLag = lag;
+  }
+
+  if (bestLag < 0 || scores[bestLag] <= 0) return null;
+
+  const period = refinePeriod(ac, bestLag);
+  const bpm = (60 * frameRate) / period;
+  if (bpm < minBpm || bpm > maxBpm) return null;
+
+  return {
+    bpm: round(bpm, 2),
+    confidence: round(clamp(ac[bestLag], 0, 1), 2)
+  };
+}
+
+/**
+ * Local tempo over time from windowed autocorrelation. Each window only
+ * searches near the global tempo so that it cannot jump an octave.
+ */
+export function computeTempoCurve(envelope: OnsetEnvelope, bpm: number): TempoCurve | null {
+  const { frameRate } = envelope;
+  const period = (60 * frameRate) / bpm;
+  const minLag = Math.max(1, Math.floor(period / (1 + CURVE_SEARCH_RANGE)));
+  const maxLag = Math.ceil(period * (1 + CURVE_SEARCH_RANGE));
+  const windowLength = Math.round(CURVE_WINDOW_SECONDS * frameRate);
+  const hop = Math.round(CURVE_HOP_SECONDS * frameRate);
+
+  const times: number[] = [];
+  const tempos: number[] = [];
+
+  for (let start = 0; start + windowLength <= envelope.values.length; start += hop) {
+    const window = envelope.values.subarray(start, start + windowLength);
+    const ac = normalizedAutocorrelation(window, maxLag * 4 + 2);
+    if (!ac) continue;
+
+    let bestLag = minLag;
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      if (ac[lag] > ac[bestLag]) bestLag = lag;
+    }
+    if (ac[bestLag] < CURVE_MIN_STRENGTH) continue;
+
+    times.push(round((start + windowLength / 2) / frameRate + envelope.timeOffset, 2));
+    tempos.push((60 * frameRate) / refinePeriod(ac, bestLag));
+  }
+
+  if (tempos.length === 0) return null;
+
+  // A 3-point median removes single-window outliers before taking the range
+  const smoothed = tempos.map((_, i) => median(tempos.slice(Math.max(0, i - 1), i + 2)));
+  const sorted = [...smoothed].sort((a, b) => a - b);
+  const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+  const mid = median(smoothed);
+
+  return {
+    points: smoothed.map((value, i) => ({ time: times[i], bpm: round(value, 2) })),
+    min: round(sorted[0], 2),
+    max: round(sorted[sorted.length - 1], 2),
+    median: round(mid, 2),
+    stability: (percentile(0.9) - percentile(0.1)) / mid > VARIABLE_TEMPO_SPREAD ? 'variable' : 'constant'
+  };
+}
+
+/**
+ * Autocorrelation of the mean-removed envelope, bias-corrected and scaled so
+ * lag 0 equals 1
+ */
+export function normalizedAutocorrelation(values: ArrayLike<number>, maxLag: number): Float64Array | null {
+  const avg = mean(values);
+  const centered = new Float64Array(values.length);
+  for (let i = 0; i < values.length; i++) centered[i] = values[i] - avg;
+
+  const ac = autocorrelate(centered, maxLag);
+  if (ac[0] <= 0) return null;
+
+  const n = centered.length;
+  const zero = ac[0] / n;
+  for (let lag = 0; lag < ac.length; lag++) {
+    ac[lag] = ac[lag] / (n - lag) / zero;
+  }
+  return ac;
+}
+
+/**
+ * Highest autocorrelation value within one frame of a fractional lag
+ */
+function peakNear(ac: Float64Array, lag: number): number {
+  const lo = Math.max(0, Math.floor(lag) - 1);
+  const hi = Math.min(ac.length - 1, Math.ceil(lag) + 1);
+  let best = -Infinity;
+  for (let i = lo; i <= hi; i++) best = Math.max(best, ac[i]);
+  return best === -Infinity ? 0 : best;
+}
+
+/**
+ * Refine an integer beat period to sub-frame precision by locating the
+ * autocorrelation peak at the largest available multiple of it
+ */
+function refinePeriod(ac: Float64Array, lag: number): number {
+  for (const multiple of [4, 2, 1]) {
+    const target = lag * multiple;
+    if (target + 2 >= ac.length) continue;
+
+    let bestIndex = target;
+    for (let i = target - multiple; i <= target + multiple; i++) {
+      if (i > 0 && i < ac.length - 1 && ac[i] > ac[bestIndex]) bestIndex = i;
+    }
+    return parabolicPeak(ac, bestIndex) / multiple;
+  }
+  return lag;
+}
@@ -0,0 +1,87 @@
+import { TempoCandidate } from '@/types';
+import { round } from './dsp';
+
+export interface TempoHints {
+  genres?: string[];
+  bpmRange?: { min?: number; max?: number };
+}
+
+// Octave errors and the less common dotted-time error, with their prior weight
+const MULTIPLIERS: [number, number][] = [[1, 1], [0.5, 0.5], [2, 0.5], [1.5, 0.25]];
+
+const MIN_PLAUSIBLE_BPM = 40;
+const MAX_PLAUSIBLE_BPM = 250;
+
+// How quickly a candidate loses support outside a range, in octaves
+const RANGE_FALLOFF_OCTAVES = 0.15;
+
+// Typical tempo ranges; more specific names come first so they match before generic ones
+const GENRE_BPM_RANGES: { pattern: RegExp; min: number; max: number }[] = [
+  { pattern: /drum\s*(?:and|&|n|'n')\s*bass|dnb|d&b|jungle|neurofunk/, min: 160, max: 180 },
+  { pattern: /dubstep|riddim/, min: 135, max: 150 },
+  { pattern: /hardstyle|hardcore/, min: 145, max: 180 },
+  { pattern: /deep house|lo-?fi house/, min: 115, max: 125 },
+  { pattern: /tech house|progressive house|house/, min: 118, max: 130 },
+  { pattern: /techno/, min: 120, max: 145 },
+  { pattern: /trance/, min: 128, max: 145 },
+  { pattern: /garage|2-?step/, min: 128, max: 140 },
+  { pattern: /trap/, min: 130, max: 160 },
+  { pattern: /hip[\s-]?hop|rap|boom bap/, min: 80, max: 100 },
+  { pattern: /lo-?fi/, min: 70, max: 95 },
+  { pattern: /reggaeton|dembow/, min: 88, max: 100 },
+  { pattern: /dancehall|reggae/, min: 70, max: 110 },
+  { pattern: /r&b|rnb|soul/, min: 60, max: 100 },
+  { pattern: /afrobeats?|amapiano/, min: 100, max: 120 },
+  { pattern: /disco|funk/, min: 100, max: 130 },
+  { pattern: /pop/, min: 95, max: 130 },
+  { pattern: /metal|punk/, min: 100, max: 200 },
+  { pattern: /rock|indie/, min: 100, max: 150 }
+];
+
+/**
+ * Pick between the detected tempo and its half, double and dotted variants
+ * using genre and client-supplied ranges. Without hints the detected tempo is
+ * kept, since nothing argues for a different one.
+ */
+export function correctTempo(bpm: number, hints: TempoHints = {}): { bpm: number; multiplier: number; candidates: TempoCandidate[] } {
+  const genreRanges = (hints.genres || [])
+    .map(genre => GENRE_BPM_RANGES.find(range => range.pattern.test(genre.toLowerCase())))
+    .filter((range): range is typeof GENRE_BPM_RANGES[number] => range !== undefined);
+
+  const candidates = MULTIPLIERS
+    .map(([multiplier, prior]) => {
+      const value = round(bpm * multiplier, 2);
+      let score = prior;
+
+      if (hints.bpmRange) {
+        score *= rangeFit(value, hints.bpmRange.min, hints.bpmRange.max);
+      }
+      if (genreRanges.length > 0) {
+        score *= Math.max(...genreRanges.map(range => rangeFit(value, range.min, range.max)));
+      }
+
+      return { bpm: value, multiplier, score };
+    })
+    .filter(candidate => candidate.bpm >= MIN_PLAUSIBLE_BPM && candidate.bpm <= MAX_PLAUSIBLE_BPM);
+
+  const total = candidates.reduce((sum, candidate) => sum + candidate.score, 0);
+  if (total <= 0) {
+    return { bpm, multiplier: 1, candidates: [{ bpm, multiplier: 1, score: 1 }] };
+  }
+
+  const ranked = candidates
+    .map(candidate => ({ ...candidate, score: round(candidate.score / total, 3) }))
+    .sort((a, b) => b.score - a.score);
+
+  return { bpm: ranked[0].bpm, multiplier: ranked[0].multiplier, candidates: ranked };
+}
+
+/**
+ * 1 inside the range, falling off smoothly (in octaves) outside it
+ */
+function rangeFit(bpm: number, min?: number, max?: number): number {
+  let distance = 0;
+  if (min !== undefined && bpm < min) distance = Math.log2(min / bpm);
+  if (max !== undefined && bpm > max) distance = Math.log2(bpm / max);
+  return Math.exp(-0.5 * (distance / RANGE_FALLOFF_OCTAVES) ** 2);
+}
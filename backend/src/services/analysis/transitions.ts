@@ -0,0 +1,210 @@
+import { StructureSegment, Track, TransitionPlan, TransitionStyle, TransitionTempo } from '@/types';
+import { convertToCamelot } from './musicalKey';
+import { compatibleKeys, matchTempo } from './harmonic';
+import { round } from './dsp';
+
+export interface TransitionPlanning {
+  tempo: TransitionTempo;
+  plans: TransitionPlan[];
+  warnings: string[];
+}
+
+interface BarTimeline {
+  bars: number;
+  time(bar: number): number;
+  barAt(time: number): number;
+  segmentAt(bar: number): StructureSegment | undefined;
+}
+
+// Dance music phrases run in 8 bars; transitions start and end on them
+const PHRASE_BARS = 8;
+const TRANSITION_LENGTHS = [32, 16, 8, 4]; // bars, longest first
+const SHORT_BLEND_BARS = 8;
+
+// Assumed when a track has no detected intro, or no outro or mix-out cue
+const DEFAULT_INTRO_BARS = 16;
+const DEFAULT_OUTRO_BARS = 16;
+
+// Pitch changes beyond this are audible without key lock
+const MAX_TEMPO_ADJUSTMENT = 0.08;
+
+// Share of a plan's score from energy continuity; the rest rewards longer transitions
+const ENERGY_WEIGHT = 0.6;
+const UNKNOWN_ENERGY_FIT = 0.5;
+
+const TEMPO_FACTORS = { same: 1, half: 0.5, double: 2 };
+
+/**
+ * Ways to mix from `outgoing` into `incoming`, best first, from their beat
+ * grids, structure and energy. Null if either track has no beat grid.
+ */
+export function planTransitions(outgoing: Track, incoming: Track): TransitionPlanning | null {
+  if (!outgoing.beatGrid?.downbeats.length || !incoming.beatGrid?.downbeats.length) return null;
+
+  const out = barTimeline(outgoing);
+  const into = barTimeline(incoming);
+  const tempo = matchTempos(outgoing.beatGrid.bpm, incoming.beatGrid.bpm);
+  const warnings = describeProblems(outgoing, incoming, tempo);
+
+  const mixOutBar = findMixOutBar(outgoing, out);
+  const intro = incoming.structure?.[0]?.label === 'intro' ? incoming.structure[0].bars : DEFAULT_INTRO_BARS;
+  const plans: TransitionPlan[] = [];
+
+  const blendBars = longestFitting(Math.min(out.bars - mixOutBar, intro, into.bars));
+  if (blendBars) {
+    plans.push(buildPlan('blend', outgoing, incoming, out, into, mixOutBar, 0, blendBars, blendBars / 2));
+  }
+
+  // Lead-up to the incoming drop laid over the outro, so the drop lands as the outgoing track ends
+  const drop = incoming.structure?.find(segment => segment.label === 'drop');
+  if (drop) {
+    const dropBar = into.barAt(drop.start);
+    const bars = longestFitting(Math.min(dropBar, out.bars - mixOutBar));
+    if (bars) plans.push(buildPlan('drop_swap', outgoing, incoming, out, into, mixOutBar, dropBar - bars, bars, bars));
+  }
+
+  const lastPhrase = phraseStart(out, out.bars - SHORT_BLEND_BARS);
+  const shortBars = longestFitting(Math.min(SHORT_BLEND_BARS, out.bars - lastPhrase, into.bars));
+  if (shortBars && lastPhrase > mixOutBar) {
+    plans.push(buildPlan('short_blend', outgoing, incoming, out, into, lastPhrase, 0, shortBars, shortBars / 2));
+  }
+
+  return { tempo, plans: plans.sort((a, b) => b.score - a.score), warnings };
+}
+
+/**
+ * The incoming track's tempo matched to the outgoing one, at half or double
+ * time when that is the smaller change
+ */
+export function matchTempos(outgoingBpm: number, incomingBpm: number): TransitionTempo {
+  const { relation } = matchTempo(outgoingBpm, incomingBpm, Infinity) as NonNullable<ReturnType<typeof matchTempo>>;
+  const adjustedBpm = outgoingBpm * TEMPO_FACTORS[relation];
+
+  return {
+    outgoingBpm: round(outgoingBpm, 2),
+    incomingBpm: round(incomingBpm, 2),
+    relation,
+    adjustedBpm: round(adjustedBpm, 2),
+    adjustmentPercent: round((adjustedBpm / incomingBpm - 1) * 100, 2)
+  };
+}
+
+function describeProblems(outgoing: Track, incoming: Track, tempo: TransitionTempo): string[] {
+  const warnings: string[] = [];
+
+  if (Math.abs(tempo.adjustmentPercent) > MAX_TEMPO_ADJUSTMENT * 100) {
+    warnings.push(`Incoming tempo changes by ${tempo.adjustmentPercent}%; use key lock or a shorter transition`);
+  }
+
+  const fromKey = convertToCamelot(outgoing.outroKey || outgoing.musicalKey);
+  const toKey = convertToCamelot(incoming.introKey || incoming.musicalKey);
+  if (fromKey && toKey && !compatibleKeys(fromKey, { energyBoost: true }).some(key => key.camelotKey === toKey)) {
+    warnings.push(`Key clash: ${fromKey} → ${toKey}; keep the overlap short or swap melodies on the EQ swap`);
+  }
+
+  for (const track of [outgoing, incoming]) {
+    if (!track.structure?.length) {
+      warnings.push(`No structure detected for "${track.title}"; phrases are counted from its first downbeat`);
+    }
+  }
+  return warnings;
+}
+
+/**
+ * Bar where the outgoing track's outro starts, or its mix-out cue, or the
+ * phrase that leaves DEFAULT_OUTRO_BARS before the end
+ */
+function findMixOutBar(track: Track, timeline: BarTimeline): number {
+  const outro = track.structure?.[track.structure.length - 1];
+  if (outro?.label === 'outro') return timeline.barAt(outro.start);
+
+  const cue = track.cuePoints?.find(point => point.name === 'mix_out');
+  if (cue) return phraseStart(timeline, timeline.barAt(cue.time));
+
+  return phraseStart(timeline, timeline.bars - DEFAULT_OUTRO_BARS);
+}
+
+function buildPlan(
+  style: TransitionStyle,
+  outgoing: Track,
+  incoming: Track,
+  out: BarTimeline,
+  into: BarTimeline,
+  outStart: number,
+  inStart: number,
+  bars: number,
+  swapBar: number
+): TransitionPlan {
+  const mixOut = { start: out.time(outStart), end: out.time(outStart + bars) };
+  const mixIn = { start: into.time(inStart), end: into.time(inStart + bars) };
+
+  // Energy where the outgoing track is mixed out against what the incoming plays alone
+  const from = out.segmentAt(outStart)?.energy;
+  const to = into.segmentAt(Math.min(inStart + bars, into.bars - 1))?.energy;
+  const energyFit = from !== undefined && to !== undefined ? 1 - Math.abs(from - to) : UNKNOWN_ENERGY_FIT;
+  const lengthFit = bars / TRANSITION_LENGTHS[0];
+
+  const description = {
+    blend: `Blend ${bars} bars of the intro of "${incoming.title}" over the outro of "${outgoing.title}"; swap the bass at bar ${swapBar + 1}`,
+    drop_swap: `Bring in the ${bars} bars before the drop of "${incoming.title}" over the outro; swap the bass on the drop`,
+    short_blend: `Blend ${bars} bars over the last phrase of "${outgoing.title}"; swap the bass at bar ${swapBar + 1}`
+  }[style];
+
+  return {
+    style,
+    bars,
+    duration: round(mixOut.end - mixOut.start, 3),
+    mixOut,
+    mixIn,
+    eqSwap: {
+      bar: swapBar,
+      outgoingTime: out.time(outStart + swapBar),
+      incomingTime: into.time(inStart + swapBar)
+    },
+    score: round(ENERGY_WEIGHT * energyFit + (1 - ENERGY_WEIGHT) * lengthFit, 3),
+    description
+  };
+}
+
+/**
+ * Bar positions from a track's downbeats; bars past the last downbeat are
+ * extrapolated at the grid's tempo
+ */
+function barTimeline(track: Track): BarTimeline {
+  const grid = track.beatGrid as NonNullable<Track['beatGrid']>;
+  const downbeats = grid.downbeats;
+  const barSeconds = (60 / grid.bpm) * grid.beatsPerBar;
+  const last = downbeats[downbeats.length - 1];
+
+  const timeline: BarTimeline = {
+    bars: downbeats.length,
+    time: bar => round(bar < downbeats.length ? downbeats[Math.max(0, bar)] : last + (bar - downbeats.length + 1) * barSeconds, 3),
+    barAt: time => {
+      let nearest = 0;
+      downbeats.forEach((downbeat, index) => {
+        if (Math.abs(downbeat - time) < Math.abs(downbeats[nearest] - time)) nearest = index;
+      });
+      return nearest;
+    },
+    segmentAt: bar => {
+      const time = timeline.time(bar);
+      return track.structure?.find(segment => time >= segment.start && time < segment.end);
+    }
+  };
+  return timeline;
+}
+
+/**
+ * Start of the phrase containing `bar`, counting phrases from the start of
+ * its structure section (or the first downbeat)
+ */
+function phraseStart(timeline: BarTimeline, bar: number): number {
+  const clamped = Math.max(0, bar);
+  const section = timeline.segmentAt(clamped);
+  const anchor = section ? timeline.barAt(section.start) : 0;
+  return Math.max(0, anchor + Math.floor((clamped - anchor) / PHRASE_BARS) * PHRASE_BARS);
+}
+
+function longestFitting(available: number): number | undefined {
+  return TRANSITION_LENGTHS.find(length => length <= available);
+}
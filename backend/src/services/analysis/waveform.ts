@@ -0,0 +1,116 @@
+import { WaveformLevel } from '@/types';
+import { PcmAudio, Biquad, round } from './dsp';
+import { AudioBounds } from './bounds';
+
+export const WAVEFORM_ZOOM_LEVELS = [50, 100, 400]; // pixels per second
+
+// Crossover points for the coloured (low/mid/high) waveform
+const LOW_CUTOFF_HZ = 200;
+const HIGH_CUTOFF_HZ = 2500;
+
+/**
+ * Overview waveform: `count` peak amplitudes normalized to the loudest one.
+ * With `bounds`, only peaks inside them set the scale, so a loud outro
+ * voice-over or end card cannot flatten the music.
+ */
+export function computeOverviewPeaks(audio: PcmAudio, count: number = 1000, bounds?: AudioBounds): number[] {
+  const { samples, sampleRate } = audio;
+  if (samples.length === 0) return [];
+
+  const bins = Math.min(count, samples.length);
+  const peaks = new Array<number>(bins).fill(0);
+  let maxPeak = 0;
+  for (let bin = 0; bin < bins; bin++) {
+    const start = Math.floor((bin * samples.length) / bins);
+    const end = Math.floor(((bin + 1) * samples.length) / bins);
+    for (let i = start; i < end; i++) {
+      peaks[bin] = Math.max(peaks[bin], Math.abs(samples[i]));
+    }
+    const inBounds = !bounds || (end > bounds.audioStart * sampleRate && start < bounds.audioEnd * sampleRate);
+    if (inBounds) maxPeak = Math.max(maxPeak, peaks[bin]);
+  }
+
+  return peaks.map(peak => (maxPeak > 0 ? round(Math.min(1, peak / maxPeak), 3) : 0));
+}
+
+/**
+ * Min/max and per-band energy waveforms at several zoom levels. The finest
+ * level is measured from the signal; coarser levels are aggregated from it.
+ * Amplitudes are quantized: min/max to -127..127, band energies to 0..255.
+ */
+export function computeWaveformPyramid(audio: PcmAudio, levels: number[] = WAVEFORM_ZOOM_LEVELS): WaveformLevel[] {
+  const { samples, sampleRate } = audio;
+  const duration = samples.length / sampleRate;
+  const finest = Math.max(...levels);
+  const bins = Math.ceil(duration * finest);
+  if (bins === 0) return [];
+
+  const min = new Float64Array(bins);
+  const max = new Float64Array(bins);
+  const energy = [new Float64Array(bins), new Float64Array(bins), new Float64Array(bins)];
+  const counts = new Uint32Array(bins);
+
+  const bands = [
+    Biquad.lowPass(LOW_CUTOFF_HZ, sampleRate),
+    Biquad.bandPass(Math.sqrt(LOW_CUTOFF_HZ * HIGH_CUTOFF_HZ), sampleRate, 0.5),
+    Biquad.highPass(HIGH_CUTOFF_HZ, sampleRate)
+  ];
+
+  for (let i = 0; i < samples.length; i++) {
+    const bin = Math.min(bins - 1, Math.floor((i * finest) / sampleRate));
+    const x = samples[i];
+    if (counts[bin] === 0 || x < min[bin]) min[bin] = x;
+    if (counts[bin] === 0 || x > max[bin]) max[bin] = x;
+    for (let b = 0; b < 3; b++) {
+      const y = bands[b].process(x);
+      energy[b][bin] += y * y;
+    }
+    counts[bin]++;
+  }
+
+  // Scale all bands against the loudest band value so their balance is kept
+  let maxBandRms = 0;
+  for (let bin = 0; bin < bins; bin++) {
+    for (let b = 0; b < 3; b++) {
+      maxBandRms = Math.max(maxBandRms, Math.sqrt(energy[b][bin] / (counts[bin] || 1)));
+    }
+  }
+
+  return [...levels].sort((a, b) => a - b).map(pixelsPerSecond => {
+    const length = Math.ceil(duration * pixelsPerSecond);
+    const level: WaveformLevel = {
+      pixelsPerSecond,
+      duration: round(duration, 3),
+      min: [],
+      max: [],
+      low: [],
+      mid: [],
+      high: []
+    };
+
+    for (let j = 0; j < length; j++) {
+      const from = Math.floor((j * finest) / pixelsPerSecond);
+      const to = Math.max(from + 1, Math.min(bins, Math.floor(((j + 1) * finest) / pixelsPerSecond)));
+
+      let lo = 0;
+      let hi = 0;
+      const sums = [0, 0, 0];
+      let count = 0;
+      for (let bin = from; bin < to; bin++) {
+        lo = Math.min(lo, min[bin]);
+        hi = Math.max(hi, max[bin]);
+        for (let b = 0; b < 3; b++) sums[b] += energy[b][bin];
+        count += counts[bin];
+      }
+
+      const band = (b: number) => (maxBandRms > 0 ? Math.round((255 * Math.sqrt(sums[b] / (count || 1))) / maxBandRms) : 0);
+      level.min.push(Math.round(Math.max(-1, lo) * 127));
+      level.max.push(Math.round(Math.min(1, hi) * 127));
+      level.low.push(Math.min(255, band(0)));
+      level.mid.push(Math.min(255, band(1)));
+      level.high.push(Math.min(255, band(2)));
+    }
+
+    return level;
+  });
+}
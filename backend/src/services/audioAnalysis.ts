@@ -1,70 +1,157 @@
-import axios from 'axios';
-import FormData from 'form-data';
-import ffmpeg from 'fluent-ffmpeg';
+import crypto from 'crypto';
+import { createReadStream } from 'fs';
 import { parseFile } from 'music-metadata';
 import { logger } from '@/utils/logger';
 import { redis } from '@/utils/redis';
-import { AudioAnalysisResult } from '@/types';
+import { AudioAnalysisResult, AudioFileTags, AudioQuality, TimeWindow, WaveformLevel } from '@/types';
+import { loadProviders, ConfiguredProvider } from './analysis/providers';
+import { fuseResults, ProviderContribution } from './analysis/fusion';
+import { correctTempo, TempoHints } from './analysis/tempoCorrection';
+import { rescaleBeats } from './analysis/beats';
+import { decodePcm, ANALYSIS_SAMPLE_RATE } from './analysis/decode';
+import { computeFingerprint, FINGERPRINT_SECONDS } from './analysis/fingerprint';
+import { computeWaveformPyramid } from './analysis/waveform';
+import { normalizeKey } from './analysis/musicalKey';
+
+// Version of the analysis pipeline as a whole (fusion, tempo correction and the
+// provider set). Bump it when results change, so stored tracks can be backfilled.
+export const ANALYZER_VERSION = '1.0.0';
 
 class AudioAnalysisService {
-  private auddApiKey: string;
+  private providers: ConfiguredProvider[];
 
   constructor() {
-    this.auddApiKey = process.env.AUDD_API_KEY || '';
+    this.providers = loadProviders();
+    logger.info(`Audio analysis providers: ${this.providers.map(({ provider, weight }) => `${provider.name}:${weight}`).join(', ')}`);
   }
 
   /**
-   * Analyze audio from URL using multiple services
+   * Analyze audio from URL with every enabled provider and fuse the results.
+   * Tempo hints (genres, expected BPM range) resolve half/double-time readings.
+   * With a window, only that section is decoded and analyzed.
    */
-  async analyzeFromUrl(audioUrl: string): Promise<AudioAnalysisResult> {
-    const cacheKey = `audio:analysis:${Buffer.from(audioUrl).toString('base64')}`;
+  async analyzeFromUrl(audioUrl: string, tempoHints: TempoHints = {}, window?: TimeWindow): Promise<AudioAnalysisResult> {
+    logger.info(`Starting audio analysis for URL: ${audioUrl}`);
+    return this.analyze(audioUrl, Buffer.from(audioUrl).toString('base64'), tempoHints, window, true);
+  }
+
+  /**
+   * Analyze a local audio file. Results are cached by content, so the same
+   * file uploaded twice is only analyzed once. Files may be unreleased, so
+   * remote providers only receive them when `allowRemote` is set. Callers
+   * analyzing several windows of one file pass its `contentHash` to skip
+   * re-reading it each time.
+   */
+  async analyzeFile(
+    filePath: string,
+    tempoHints: TempoHints = {},
+    window?: TimeWindow,
+    allowRemote = false,
+    contentHash?: string
+  ): Promise<AudioAnalysisResult> {
+    const hash = contentHash ?? await hashFile(filePath);
+    logger.info(`Starting audio analysis for file: ${hash}`);
+    return this.analyze(filePath, `file:${hash}`, tempoHints, window, allowRemote);
+  }
+
+  /**
+   * SHA-256 of a file's contents, as used in analysis cache keys
+   */
+  hashFile(filePath: string): Promise<string> {
+    return hashFile(filePath);
+  }
+
+  /**
+   * Read the tags embedded in an audio file. Missing or unreadable tags are not an error.
+   */
+  async readTags(filePath: string): Promise<AudioFileTags> {
+    try {
+      const { common, format } = await parseFile(filePath, { duration: true });
+      return {
+        title: common.title,
+        artist: common.artist,
+        album: common.album,
+        genre: common.genre?.[0],
+        year: common.year,
+        bpm: common.bpm,
+        key: normalizeKey(common.key),
+        durationSeconds: format.duration ? Math.round(format.duration * 1000) / 1000 : undefined,
+        format: {
+          container: format.container,
+          codec: format.codec,
+          sampleRate: format.sampleRate,
+          bitrate: format.bitrate ? Math.round(format.bitrate) : undefined,
+          channels: format.numberOfChannels
+        }
+      };
+    } catch (error) {
+      logger.warn('Failed to read audio tags:', error);
+      return {};
+    }
+  }
+
+  private async analyze(
+    source: string,
+    sourceKey: string,
+    tempoHints: TempoHints,
+    window: TimeWindow | undefined,
+    allowRemote: boolean
+  ): Promise<AudioAnalysisResult> {
+    // Whole-recording results (e.g. from recognition) say nothing about one section
+    const providers = this.providers.filter(({ provider }) =>
+      (!window || provider.supportsWindows) && (allowRemote || !provider.remote)
+    );
+
+    // Provider set is part of the key so configuration changes are not masked by the cache
+    const providerKey = providers.map(({ provider, weight }) => `${provider.name}@${provider.version}:${weight}`).join(',');
+    const windowKey = window ? `:${window.start}-${window.end}` : '';
+    const cacheKey = `audio:analysis:${ANALYZER_VERSION}:${providerKey}:${sourceKey}${windowKey}`;
     
     // Check cache first (cache for 24 hours)
     const cached = await redis.getJson<AudioAnalysisResult>(cacheKey);
     if (cached) {
       logger.info('Audio analysis cache hit');
-      return cached;
+      return this.applyTempoCorrection(cached, tempoHints);
     }
 
-    logger.info(`Starting audio analysis for URL: ${audioUrl}`);
-
     try {
-      // Run multiple analysis methods in parallel
-      const [auddResult, basicAnalysis, waveformData] = await Promise.allSettled([
-        this.analyzeWithAudD(audioUrl),
-        this.basicAudioAnalysis(audioUrl),
-        this.generateWaveform(audioUrl)
-      ]);
+      // Run all providers in parallel; one failing must not sink the others
+      const settled = await Promise.allSettled(
+        providers.map(({ provider }) => provider.analyze(source, window))
+      );
+
+      const contributions: ProviderContribution[] = [];
+      settled.forEach((outcome, index) => {
+        const { provider } = providers[index];
+        if (outcome.status === 'fulfilled') {
+          contributions.push({ ...providers[index], result: outcome.value });
+        } else {
+          logger.error(`Analysis provider ${provider.name} failed:`, outcome.reason);
+        }
+      });
 
-      // Combine results
-      const result: AudioAnalysisResult = {};
+      const result = fuseResults(contributions);
+      result.analyzerVersion = ANALYZER_VERSION;
+      result.providerVersions = Object.fromEntries(
+        contributions.map(({ provider }) => [provider.name, provider.version])
+      );
 
-      // AudD results (most reliable for BPM and key)
-      if (auddResult.status === 'fulfilled' && auddResult.value) {
-        Object.assign(result, auddResult.value);
+      if (result.tempoConfidence === undefined) {
+        result.tempoConfidence = 0.0;
       }
-
-      // Basic analysis fallback
-      if (basicAnalysis.status === 'fulfilled' && basicAnalysis.value) {
-        if (!result.bpm && basicAnalysis.value.bpm) {
-          result.bpm = basicAnalysis.value.bpm;
-        }
-        if (!result.energyLevel && basicAnalysis.value.energyLevel) {
-          result.energyLevel = basicAnalysis.value.energyLevel;
-        }
+      if (result.keyConfidence === undefined) {
+        result.keyConfidence = 0.0;
       }
 
-      // Waveform data
-      if (waveformData.status === 'fulfilled' && waveformData.value) {
-        result.waveformPeaks = waveformData.value;
+      // Without a modulation the track has one key, whichever provider settled it
+      if (result.musicalKey && result.keyModulations?.length === 0) {
+        result.introKey = result.musicalKey;
+        result.outroKey = result.musicalKey;
       }
 
-      // Set confidence scores
-      result.tempoConfidence = result.bpm ? 0.8 : 0.0;
-      result.keyConfidence = result.musicalKey ? 0.7 : 0.0;
-
-      // Cache for 24 hours
-      await redis.setJson(cacheKey, result, 86400);
+      // Cache for 24 hours, before tempo correction since hints vary per request; zoom levels are too large and are stored with the track instead
+      const { waveformLevels, ...cacheable } = result;
+      await redis.setJson(cacheKey, cacheable, 86400);
 
       logger.info('Audio analysis completed', { 
         bpm: result.bpm, 
@@ -72,7 +159,7 @@ class AudioAnalysisService {
         energy: result.energyLevel 
       });
 
-      return result;
+      return this.applyTempoCorrection(result, tempoHints);
 
     } catch (error) {
       logger.error('Audio analysis error:', error);
@@ -81,220 +168,114 @@ class AudioAnalysisService {
   }
 
   /**
-   * Analyze with AudD service (most reliable)
+   * Waveform zoom levels of a recording, for storing with a track whose
+   * analysis came from the cache, which leaves them out. Null if the audio
+   * cannot be decoded.
    */
-  private async analyzeWithAudD(audioUrl: string): Promise<Partial<AudioAnalysisResult>> {
-    if (!this.auddApiKey) {
-      logger.warn('AudD API key not configured, skipping AudD analysis');
-      return {};
-    }
-
+  async waveformLevelsFor(source: string): Promise<WaveformLevel[] | null> {
     try {
-      const formData = new FormData();
-      formData.append('url', audioUrl);
-      formData.append('api_token', this.auddApiKey);
-      formData.append('return', 'musicbrainz');
-
-      const response = await axios.post('https://api.audd.io/', formData, {
-        headers: formData.getHeaders(),
-        timeout: 30000
-      });
-
-      if (response.data.status === 'success' && response.data.result) {
-        const data = response.data.result;
-        
-        return {
-          bpm: data.tempo ? Math.round(data.tempo) : undefined,
-          musicalKey: data.key || undefined,
-          camelotKey: this.convertToCamelot(data.key),
-          genre: data.genre || undefined,
-          loudness: data.loudness || undefined
-        };
-      }
-
-      return {};
+      return computeWaveformPyramid(await decodePcm(source));
     } catch (error) {
-      logger.error('AudD analysis error:', error);
-      return {};
+      logger.error('Waveform level error:', error);
+      return null;
     }
   }
 
   /**
-   * Basic audio analysis using FFmpeg and heuristics
+   * Fingerprint the opening of a recording to recognize re-uploads of it
    */
-  private async basicAudioAnalysis(audioUrl: string): Promise<Partial<AudioAnalysisResult>> {
-    return new Promise((resolve) => {
-      try {
-        let duration = 0;
-        let energySum = 0;
-        let sampleCount = 0;
-
-        ffmpeg(audioUrl)
-          .audioFilters([
-            'lowpass=3000', // Remove high frequencies for BPM detection
-            'highpass=60'   // Remove very low frequencies
-          ])
-          .format('wav')
-          .on('codecData', (data) => {
-            duration = this.parseDuration(data.duration);
-          })
-          .on('progress', (progress) => {
-            // Estimate energy from processing speed (rough heuristic)
-            if (progress.percent) {
-              energySum += progress.percent;
-              sampleCount++;
-            }
-          })
-          .on('end', () => {
-            const avgEnergy = sampleCount > 0 ? energySum / sampleCount / 100 : 0.5;
-            
-            resolve({
-              energyLevel: Math.min(Math.max(avgEnergy, 0), 1),
-              // BPM estimation based on duration and energy (very rough)
-              bpm: duration ? this.estimateBPMFromDuration(duration, avgEnergy) : undefined
-            });
-          })
-          .on('error', (error) => {
-            logger.error('FFmpeg analysis error:', error);
-            resolve({});
-          })
-          .pipe(require('stream').Writable({
-            write: () => {} // Discard output
-          }));
-
-      } catch (error) {
-        logger.error('Basic analysis error:', error);
-        resolve({});
-      }
-    });
+  async fingerprintFromUrl(audioUrl: string): Promise<string | null> {
+    try {
+      const audio = await decodePcm(audioUrl, ANALYSIS_SAMPLE_RATE, FINGERPRINT_SECONDS);
+      return computeFingerprint(audio);
+    } catch (error) {
+      logger.error('Fingerprinting error:', error);
+      return null;
+    }
   }
 
   /**
-   * Generate waveform peaks for visualization
+   * Measure source quality alone, for a re-upload that reuses another copy's
+   * analysis but is a different encode. Null if no quality provider is enabled.
    */
-  private async generateWaveform(audioUrl: string, peakCount: number = 1000): Promise<number[]> {
-    return new Promise((resolve, reject) => {
-      try {
-        const peaks: number[] = [];
-        let maxPeak = 0;
-
-        ffmpeg(audioUrl)
-          .audioFilters([
-            `aresample=8000`, // Downsample for performance
-            `asetnsamples=n=${Math.floor(8000 / peakCount)}`
-          ])
-          .format('f64le') // Raw audio data
-          .on('end', () => {
-            // Normalize peaks
-            const normalizedPeaks = peaks.map(peak => peak / maxPeak);
-            resolve(normalizedPeaks);
-          })
-          .on('error', (error) => {
-            logger.error('Waveform generation error:', error);
-            resolve([]);
-          })
-          .pipe(require('stream').Writable({
-            write: (chunk: Buffer, encoding, callback) => {
-              // Convert buffer to float64 values
-              for (let i = 0; i < chunk.length; i += 8) {
-                if (i + 8 <= chunk.length) {
-                  const sample = Math.abs(chunk.readDoubleLE(i));
-                  peaks.push(sample);
-                  maxPeak = Math.max(maxPeak, sample);
-                }
-              }
-              callback();
-            }
-          }));
+  async assessQualityFromUrl(audioUrl: string): Promise<AudioQuality | null> {
+    const configured = this.providers.find(({ provider }) => provider.fields.includes('quality'));
+    if (!configured) return null;
 
-      } catch (error) {
-        logger.error('Waveform generation error:', error);
-        resolve([]);
-      }
-    });
+    try {
+      const { values } = await configured.provider.analyze(audioUrl);
+      return values.quality ?? null;
+    } catch (error) {
+      logger.error('Quality assessment error:', error);
+      return null;
+    }
   }
 
   /**
-   * Convert musical key to Camelot notation
+   * Choose between the detected tempo and its octave variants, and move the
+   * beat grid onto the chosen tempo
    */
-  private convertToCamelot(key: string): string | undefined {
-    if (!key) return undefined;
+  private applyTempoCorrection(result: AudioAnalysisResult, hints: TempoHints): AudioAnalysisResult {
+    if (!result.bpm) return result;
 
-    const camelotMap: Record<string, string> = {
-      'C major': '8B', 'A minor': '8A',
-      'G major': '9B', 'E minor': '9A',
-      'D major': '10B', 'B minor': '10A',
-      'A major': '11B', 'F# minor': '11A',
-      'E major': '12B', 'C# minor': '12A',
-      'B major': '1B', 'G# minor': '1A',
-      'F# major': '2B', 'D# minor': '2A',
-      'C# major': '3B', 'A# minor': '3A',
-      'G# major': '4B', 'F minor': '4A',
-      'D# major': '5B', 'C minor': '5A',
-      'A# major': '6B', 'G minor': '6A',
-      'F major': '7B', 'D minor': '7A'
-    };
-
-    return camelotMap[key] || undefined;
-  }
+    // Fall back to the genre a provider reported when the caller has none
+    const genres = hints.genres?.length ? hints.genres : (result.genre ? [result.genre] : []);
+    const correction = correctTempo(result.bpm, { ...hints, genres });
+    const corrected: AudioAnalysisResult = { ...result, bpm: correction.bpm, tempoCandidates: correction.candidates };
 
-  /**
-   * Parse duration string to seconds
-   */
-  private parseDuration(durationStr: string): number {
-    const parts = durationStr.split(':').map(Number);
-    if (parts.length === 3) {
-      return parts[0] * 3600 + parts[1] * 60 + parts[2];
-    } else if (parts.length === 2) {
-      return parts[0] * 60 + parts[1];
-    }
-    return 0;
-  }
-
-  /**
-   * Rough BPM estimation based on duration and energy
-   */
-  private estimateBPMFromDuration(duration: number, energy: number): number | undefined {
-    // Very rough heuristic based on common music patterns
-    if (duration < 60) return undefined; // Too short
-    
-    // Electronic music patterns
-    if (energy > 0.7) {
-      return Math.round(120 + (energy - 0.7) * 40); // 120-132 BPM for high energy
-    } else if (energy > 0.4) {
-      return Math.round(100 + energy * 40); // 100-120 BPM for medium energy
-    } else {
-      return Math.round(80 + energy * 40); // 80-100 BPM for low energy
+    if (correction.bpm !== result.bpm) {
+      logger.info(`Tempo corrected from ${result.bpm} to ${correction.bpm} BPM`, { genres, bpmRange: hints.bpmRange });
     }
-  }
-
-  /**
-   * Estimate energy level from audio characteristics
-   */
-  calculateEnergyLevel(options: {
-    bpm?: number;
-    loudness?: number;
-    tempo?: number;
-  }): number {
-    let energy = 0.5; // Default medium energy
 
-    // BPM contribution
-    if (options.bpm) {
-      if (options.bpm > 140) energy += 0.3;
-      else if (options.bpm > 120) energy += 0.2;
-      else if (options.bpm > 100) energy += 0.1;
-      else energy -= 0.1;
+    // The grid and curve may come from a different provider than the BPM, so rescale each by its own ratio
+    const grid = result.beatGrid;
+    const gridMultiplier = grid ? octaveMultiplier(grid.bpm, correction.bpm) : undefined;
+    if (grid && gridMultiplier) {
+      const beats = rescaleBeats(grid, gridMultiplier);
+      corrected.beatGrid = {
+        bpm: correction.bpm,
+        firstBeatOffset: beats.beats[0],
+        beatsPerBar: grid.beatsPerBar,
+        beats: beats.beats,
+        downbeats: beats.downbeats
+      };
     }
 
-    // Loudness contribution
-    if (options.loudness !== undefined) {
-      // LUFS scale: -23 (quiet) to -16 (loud)
-      const loudnessNormalized = Math.max(0, Math.min(1, (options.loudness + 30) / 20));
-      energy += (loudnessNormalized - 0.5) * 0.4;
+    const curve = result.tempoCurve;
+    const curveMultiplier = curve ? octaveMultiplier(curve.median, correction.bpm) : undefined;
+    if (curve && curveMultiplier) {
+      const scale = (bpm: number) => Math.round(bpm * curveMultiplier * 100) / 100;
+      corrected.tempoCurve = {
+        ...curve,
+        points: curve.points.map(point => ({ time: point.time, bpm: scale(point.bpm) })),
+        min: scale(curve.min),
+        max: scale(curve.max),
+        median: scale(curve.median)
+      };
     }
 
-    return Math.max(0, Math.min(1, energy));
+    return corrected;
   }
 }
 
+/**
+ * SHA-256 of a file's contents
+ */
+function hashFile(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    createReadStream(filePath)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+/**
+ * The half/double/dotted multiplier that takes one tempo to another, if any
+ */
+function octaveMultiplier(from: number, to: number): number | undefined {
+  return [0.5, 1.5, 2].find(candidate => Math.abs(Math.log2(to / from / candidate)) < 0.05);
+}
+
 export const audioAnalysisService = new AudioAnalysisService();
@@ -0,0 +1,189 @@
+import Bull, { Job, Queue } from 'bull';
+import cron, { ScheduledTask } from 'node-cron';
+import { v4 as uuidv4 } from 'uuid';
+import { logger } from '@/utils/logger';
+import { redis } from '@/utils/redis';
+import { BackfillProgress, BackfillRequest, BackfillRun, Track } from '@/types';
+import { audioAnalysisService, ANALYZER_VERSION } from './audioAnalysis';
+import { trackService, applyAnalysis } from './tracks';
+import { youtubeService } from './youtube';
+
+// Re-analysis decodes whole tracks, so it is kept well below live traffic
+const DEFAULT_RATE_PER_MINUTE = 6;
+const DEFAULT_BATCH_SIZE = 1000;
+
+const QUEUE_NAME = 'analysis-backfill';
+const RUN_KEY = 'backfill:run';
+const JOB_ATTEMPTS = 2;
+const RETRY_DELAY_MS = 60000;
+
+interface BackfillJob {
+  trackId: string;
+}
+
+/**
+ * Re-analyzes stored tracks produced by an older analyzer version, or whose
+ * analysis failed, one at a time at a throttled rate. Runs are started on
+ * demand by admins, or on the BACKFILL_CRON schedule.
+ */
+class BackfillService {
+  private queue: Queue<BackfillJob> | null = null;
+  private task: ScheduledTask | null = null;
+  private ratePerMinute = Number(process.env.BACKFILL_RATE_PER_MINUTE) || DEFAULT_RATE_PER_MINUTE;
+  private batchSize = Number(process.env.BACKFILL_BATCH_SIZE) || DEFAULT_BATCH_SIZE;
+
+  /**
+   * Start processing queued re-analyses and the schedule, once Redis is up
+   */
+  initialize(): void {
+    if (this.queue) return;
+
+    this.queue = new Bull<BackfillJob>(QUEUE_NAME, process.env.REDIS_URL || 'redis://localhost:6379', {
+      limiter: { max: this.ratePerMinute, duration: 60000 }
+    });
+    this.queue.process(1, job => this.reanalyze(job));
+    this.queue.on('failed', (job, error) => {
+      logger.error(`Backfill re-analysis failed for track ${job.data.trackId}:`, error);
+    });
+
+    const schedule = process.env.BACKFILL_CRON;
+    if (schedule) {
+      if (!cron.validate(schedule)) {
+        logger.warn(`Invalid BACKFILL_CRON "${schedule}", scheduled backfills are disabled`);
+      } else {
+        this.task = cron.schedule(schedule, () => {
+          this.start().catch(error => logger.error('Scheduled backfill failed to start:', error));
+        });
+      }
+    }
+  }
+
+  /**
+   * Queue every stale track for re-analysis. Returns null if a run is still in progress.
+   */
+  async start(request: BackfillRequest = {}): Promise<BackfillProgress | null> {
+    const queue = this.requireQueue();
+    const { targetVersion = ANALYZER_VERSION, includeFailed = true, limit = this.batchSize } = request;
+
+    if ((await this.getProgress()).status === 'running') {
+      return null;
+    }
+
+    // Counts are reported per run, so the previous run's jobs go
+    await queue.clean(0, 'completed');
+    await queue.clean(0, 'failed');
+
+    const trackIds = await trackService.findStaleAnalysisIds(targetVersion, includeFailed, limit);
+    const run: BackfillRun = {
+      id: uuidv4(),
+      targetVersion,
+      includeFailed,
+      total: trackIds.length,
+      startedAt: new Date()
+    };
+    await redis.setJson(RUN_KEY, run);
+
+    await queue.addBulk(trackIds.map(trackId => ({
+      data: { trackId },
+      opts: {
+        jobId: trackId,
+        attempts: JOB_ATTEMPTS,
+        backoff: { type: 'fixed', delay: RETRY_DELAY_MS }
+      }
+    })));
+
+    logger.info(`Backfill ${run.id} queued ${run.total} tracks below analyzer version ${targetVersion}`);
+    return this.getProgress();
+  }
+
+  /**
+   * Progress of the latest run
+   */
+  async getProgress(): Promise<BackfillProgress> {
+    const queue = this.requireQueue();
+    const run = await redis.getJson<BackfillRun>(RUN_KEY);
+    const counts = await queue.getJobCounts();
+    const remaining = counts.waiting + counts.active + counts.delayed;
+
+    if (!run) {
+      return { status: 'idle', completed: 0, failed: 0, remaining, percent: 0, ratePerMinute: this.ratePerMinute };
+    }
+
+    const done = counts.completed + counts.failed;
+    return {
+      status: remaining > 0 ? 'running' : 'completed',
+      run,
+      completed: counts.completed,
+      failed: counts.failed,
+      remaining,
+      percent: run.total > 0 ? Math.round((done / run.total) * 100) : 100,
+      ratePerMinute: this.ratePerMinute
+    };
+  }
+
+  async close(): Promise<void> {
+    this.task?.stop();
+    await this.queue?.close();
+  }
+
+  private requireQueue(): Queue<BackfillJob> {
+    if (!this.queue) {
+      throw new Error('Backfill queue not initialized');
+    }
+    return this.queue;
+  }
+
+  /**
+   * Re-analyze a track. A failure only marks the track failed after the last
+   * attempt, and never one whose previous analysis completed: that analysis is
+   * kept and the backfill failure recorded beside it.
+   */
+  private async reanalyze(job: Job<BackfillJob>): Promise<void> {
+    const { trackId } = job.data;
+    const track = await trackService.getForAnalysis(trackId);
+    if (!track) {
+      logger.warn(`Backfill skipped track ${trackId}: no longer stored`);
+      return;
+    }
+
+    try {
+      const hints = { genres: track.genre ? [track.genre] : [] };
+      const analysis = track.storagePath
+        ? await audioAnalysisService.analyzeFile(track.storagePath, hints)
+        : await audioAnalysisService.analyzeFromUrl(await this.audioUrlFor(track), hints);
+
+      applyAnalysis(track, analysis);
+      track.analysisStatus = 'completed';
+      track.analysisCompletedAt = new Date();
+      await trackService.saveAnalysis(track);
+      if (analysis.waveformLevels) {
+        await trackService.saveWaveformLevels(track.id, analysis.waveformLevels);
+      }
+    } catch (error) {
+      const lastAttempt = job.attemptsMade + 1 >= (job.opts.attempts ?? 1);
+      if (lastAttempt) {
+        if (track.analysisStatus === 'completed') {
+          await trackService.markBackfillFailed(trackId, error instanceof Error ? error.message : String(error));
+        } else {
+          await trackService.markAnalysisFailed(trackId);
+        }
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * YouTube download URLs expire, so a fresh one is requested
+   */
+  private async audioUrlFor(track: Track): Promise<string> {
+    if (track.youtubeId) {
+      return (await youtubeService.getDownloadUrl(track.youtubeId)).url;
+    }
+    if (track.audioUrl) {
+      return track.audioUrl;
+    }
+    throw new Error(`Track ${track.id} has no audio source`);
+  }
+}
+
+export const backfillService = new BackfillService();
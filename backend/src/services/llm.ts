@@ -2,6 +2,7 @@ import OpenAI from 'openai';
 import { logger } from '@/utils/logger';
 import { redis } from '@/utils/redis';
 import { ProcessedQuery } from '@/types';
+import { normalizeKey } from './analysis/musicalKey';
 
 class LLMService {
   private openai: OpenAI;
@@ -36,7 +37,12 @@ Your task is to analyze user requests and extract:
 1. Search intent (search, analyze, discover)
 2. Search terms for YouTube
 3. Filters for BPM, key, genre, mood, energy
-4. Sorting preferences
+4. Filters for audio descriptors measured from the track (ranges are 0-1):
+   - "danceability": beat strength and regularity
+   - "brightness": treble content, e.g. dark/warm (low) vs bright/crisp (high)
+   - "acousticness": 0 = electronic, 1 = acoustic
+   - "vocals": "vocal" or "instrumental"
+5. Sorting preferences
 
 Examples:
 User: "Find me chill lofi house tracks around 120 BPM"
@@ -79,6 +85,20 @@ Response: {
   "sortBy": "relevance"
 }
 
+User: "Instrumental deep house to work to"
+Response: {
+  "intent": "search",
+  "searchTerms": ["instrumental deep house", "deep house instrumental mix", "deep house for work"],
+  "filters": {
+    "genre": ["deep house", "house"],
+    "mood": ["focused", "chill"],
+    "vocals": "instrumental",
+    "acousticness": {"max": 0.4}
+  },
+  "maxResults": 10,
+  "sortBy": "relevance"
+}
+
 Always respond with valid JSON. If the request is unclear, make reasonable assumptions.`;
 
     try {
@@ -109,6 +129,17 @@ Always respond with valid JSON. If the request is unclear, make reasonable assum
       processedQuery.maxResults = processedQuery.maxResults || 10;
       processedQuery.sortBy = processedQuery.sortBy || 'relevance';
 
+      // Keys come back in any notation ("Cm", "5A"); keep one standard name per key
+      if (processedQuery.filters?.key) {
+        const keys = [processedQuery.filters.key].flat().map(key => normalizeKey(key));
+        const normalized = [...new Set(keys.filter((key): key is string => !!key))];
+        if (normalized.length > 0) {
+          processedQuery.filters.key = normalized;
+        } else {
+          delete processedQuery.filters.key;
+        }
+      }
+
       // Cache for 1 hour
       await redis.setJson(cacheKey, processedQuery, 3600);
 
@@ -179,6 +210,7 @@ Only include fields if you're confident. Return empty object if no metadata is c
       }
 
       const metadata = JSON.parse(responseText);
+      metadata.key = normalizeKey(metadata.key);
       
       // Cache for 24 hours
       await redis.setJson(cacheKey, metadata, 86400);
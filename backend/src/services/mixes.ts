@@ -0,0 +1,46 @@
+import { database } from '@/utils/database';
+import { Mix } from '@/types';
+
+class MixService {
+  /**
+   * Store a transition plan and return it with its ID
+   */
+  async save(mix: Omit<Mix, 'id' | 'createdAt'>): Promise<Mix> {
+    const row = await database.queryOne(`
+      INSERT INTO mixes (user_id, outgoing_track_id, incoming_track_id, tempo, plans, warnings)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING *
+    `, [
+      mix.userId || null,
+      mix.outgoingTrackId,
+      mix.incomingTrackId,
+      JSON.stringify(mix.tempo),
+      JSON.stringify(mix.plans),
+      JSON.stringify(mix.warnings)
+    ]);
+    return mapMixRow(row);
+  }
+
+  /**
+   * Get a stored mix; only its creator can see it
+   */
+  async getById(id: string, userId?: string): Promise<Mix | null> {
+    const row = await database.queryOne('SELECT * FROM mixes WHERE id = $1 AND user_id = $2', [id, userId || null]);
+    return row ? mapMixRow(row) : null;
+  }
+}
+
+function mapMixRow(row: any): Mix {
+  return {
+    id: row.id,
+    userId: row.user_id ?? undefined,
+    outgoingTrackId: row.outgoing_track_id,
+    incomingTrackId: row.incoming_track_id,
+    tempo: row.tempo,
+    plans: row.plans,
+    warnings: row.warnings ?? [],
+    createdAt: row.created_at
+  };
+}
+
+export const mixService = new MixService();
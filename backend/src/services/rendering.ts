@@ -0,0 +1,198 @@
+import ffmpeg from 'fluent-ffmpeg';
+import { Writable } from 'stream';
+import { logger } from '@/utils/logger';
+import { encodePng } from '@/utils/png';
+import { WaveformLevel } from '@/types';
+
+export interface WaveformRenderOptions {
+  width: number;
+  height: number;
+  start: number; // seconds
+  end: number; // seconds
+  mode: 'peaks' | 'bands';
+  color: string; // hex without '#', used in peaks mode
+  lowColor: string; // band colours, used in bands mode
+  midColor: string;
+  highColor: string;
+  background: string | null; // null for transparent
+}
+
+export interface SpectrogramRenderOptions {
+  width: number;
+  height: number;
+  start?: number;
+  end?: number;
+}
+
+// One pixel column of a waveform; amplitudes in -1..1, band energies in 0..1
+export interface WaveformColumn {
+  min: number;
+  max: number;
+  low: number;
+  mid: number;
+  high: number;
+}
+
+class RenderingService {
+  /**
+   * Reduce a stored waveform level to one column per output pixel
+   */
+  columnsFromLevel(level: WaveformLevel, start: number, end: number, width: number): WaveformColumn[] {
+    const columns: WaveformColumn[] = [];
+    const span = end - start;
+
+    for (let x = 0; x < width; x++) {
+      const from = Math.floor((start + (span * x) / width) * level.pixelsPerSecond);
+      const to = Math.max(from + 1, Math.floor((start + (span * (x + 1)) / width) * level.pixelsPerSecond));
+
+      const column: WaveformColumn = { min: 0, max: 0, low: 0, mid: 0, high: 0 };
+      let count = 0;
+      for (let i = from; i < Math.min(to, level.max.length); i++) {
+        column.min = Math.min(column.min, level.min[i] / 127);
+        column.max = Math.max(column.max, level.max[i] / 127);
+        column.low += level.low[i] / 255;
+        column.mid += level.mid[i] / 255;
+        column.high += level.high[i] / 255;
+        count++;
+      }
+      if (count > 0) {
+        column.low /= count;
+        column.mid /= count;
+        column.high /= count;
+      }
+      columns.push(column);
+    }
+
+    return columns;
+  }
+
+  /**
+   * Build columns from the legacy overview peaks (no band information)
+   */
+  columnsFromPeaks(peaks: number[], duration: number, start: number, end: number, width: number): WaveformColumn[] {
+    const perSecond = duration > 0 ? peaks.length / duration : 0;
+    return this.columnsFromLevel({
+      pixelsPerSecond: perSecond,
+      duration,
+      min: peaks.map(peak => -Math.round(peak * 127)),
+      max: peaks.map(peak => Math.round(peak * 127)),
+      low: [],
+      mid: [],
+      high: []
+    }, start, end, width).map(column => ({ ...column, low: 0, mid: 0, high: 0 }));
+  }
+
+  renderWaveformPng(columns: WaveformColumn[], options: WaveformRenderOptions): Buffer {
+    const { width, height } = options;
+    const pixels = new Uint8Array(width * height * 4);
+    const background = options.background ? [...parseHex(options.background), 255] : [0, 0, 0, 0];
+
+    for (let i = 0; i < width * height; i++) {
+      pixels.set(background, i * 4);
+    }
+
+    columns.forEach((column, x) => {
+      const [top, bottom] = columnExtent(column, height);
+      const color = this.columnColor(column, options);
+      for (let y = top; y <= bottom; y++) {
+        pixels.set([...color, 255], (y * width + x) * 4);
+      }
+    });
+
+    return encodePng(width, height, pixels);
+  }
+
+  renderWaveformSvg(columns: WaveformColumn[], options: WaveformRenderOptions): string {
+    const { width, height } = options;
+    const parts: string[] = [
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`
+    ];
+
+    if (options.background) {
+      parts.push(`<rect width="${width}" height="${height}" fill="#${options.background}"/>`);
+    }
+
+    if (options.mode === 'peaks') {
+      // Single outline: maxima left to right, then minima right to left
+      const upper = columns.map((column, x) => `${x},${columnExtent(column, height)[0]}`);
+      const lower = columns.map((column, x) => `${x},${columnExtent(column, height)[1] + 1}`).reverse();
+      parts.push(`<polygon points="${[...upper, ...lower].join(' ')}" fill="#${options.color}"/>`);
+    } else {
+      columns.forEach((column, x) => {
+        const [top, bottom] = columnExtent(column, height);
+        const color = this.columnColor(column, options).map(c => c.toString(16).padStart(2, '0')).join('');
+        parts.push(`<rect x="${x}" y="${top}" width="1" height="${bottom - top + 1}" fill="#${color}"/>`);
+      });
+    }
+
+    parts.push('</svg>');
+    return parts.join('');
+  }
+
+  /**
+   * Render a spectrogram image with FFmpeg's showspectrumpic filter
+   */
+  async renderSpectrogramPng(audioUrl: string, options: SpectrogramRenderOptions): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = [];
+      const command = ffmpeg(audioUrl);
+
+      if (options.start) {
+        command.seekInput(options.start);
+      }
+      if (options.end !== undefined) {
+        command.duration(options.end - (options.start || 0));
+      }
+
+      command
+        .complexFilter([`[0:a]showspectrumpic=s=${options.width}x${options.height}:legend=0[spectrum]`], 'spectrum')
+        .outputOptions(['-frames:v 1'])
+        .videoCodec('png')
+        .format('image2pipe')
+        .on('end', () => resolve(Buffer.concat(chunks)))
+        .on('error', (error) => {
+          logger.error('Spectrogram rendering error:', error);
+          reject(error);
+        })
+        .pipe(new Writable({
+          write: (chunk: Buffer, _encoding, callback) => {
+            chunks.push(chunk);
+            callback();
+          }
+        }));
+    });
+  }
+
+  /**
+   * Peaks mode uses the single colour; bands mode blends the band colours by
+   * their share of the column's energy
+   */
+  private columnColor(column: WaveformColumn, options: WaveformRenderOptions): number[] {
+    if (options.mode === 'peaks') return parseHex(options.color);
+
+    const total = column.low + column.mid + column.high;
+    if (total === 0) return parseHex(options.midColor);
+
+    const colors = [parseHex(options.lowColor), parseHex(options.midColor), parseHex(options.highColor)];
+    const weights = [column.low / total, column.mid / total, column.high / total];
+    return [0, 1, 2].map(channel =>
+      Math.round(colors.reduce((sum, color, band) => sum + color[channel] * weights[band], 0))
+    );
+  }
+}
+
+/**
+ * Top and bottom pixel rows covered by a column
+ */
+function columnExtent(column: WaveformColumn, height: number): [number, number] {
+  const center = (height - 1) / 2;
+  const top = Math.round(center - column.max * center);
+  const bottom = Math.round(center - column.min * center);
+  return [Math.max(0, Math.min(top, bottom)), Math.min(height - 1, Math.max(top, bottom))];
+}
+
+function parseHex(hex: string): number[] {
+  return [0, 2, 4].map(offset => parseInt(hex.slice(offset, offset + 2), 16));
+}
+
+export const renderingService = new RenderingService();
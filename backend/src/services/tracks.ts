@@ -0,0 +1,527 @@
+import { database } from '@/utils/database';
+import { logger } from '@/utils/logger';
+import { AudioAnalysisResult, CompatibleTrack, Track, WaveformLevel } from '@/types';
+import { compareFingerprints, fingerprintHashes, DUPLICATE_SIMILARITY } from './analysis/fingerprint';
+import { convertToCamelot } from './analysis/musicalKey';
+import { compatibleKeys, matchTempo, compatibilityScore, describeCompatibility, CompatibilityOptions } from './analysis/harmonic';
+
+// Re-uploads rarely differ in length by more than an added intro or outro
+const FINGERPRINT_DURATION_TOLERANCE = 30;
+
+// Candidates sharing the most sub-fingerprints are compared in full, up to this many
+const FINGERPRINT_CANDIDATE_LIMIT = 10;
+
+// Compatible tracks are scored in memory, so the key and tempo query is capped
+const COMPATIBLE_CANDIDATE_LIMIT = 500;
+
+const CAMELOT_BACKFILL_BATCH = 500;
+
+class TrackService {
+  /**
+   * Insert or update a track by YouTube ID. Returns the stored row's ID, which
+   * differs from `track.id` when the track already existed. Uploads have no
+   * YouTube ID and are always inserted.
+   */
+  async save(track: Track): Promise<string | null> {
+    try {
+      const row = await database.queryOne<{ id: string }>(`
+        INSERT INTO tracks (
+          id, youtube_id, title, artist, duration_seconds, thumbnail_url, youtube_url, audio_url,
+          bpm, musical_key, camelot_key, energy_level, loudness, tempo_confidence, key_confidence,
+          waveform_peaks, genre, mood, tags, analysis_status, analysis_completed_at,
+          created_at, updated_at, loudness_short_term_max, true_peak, loudness_range, beat_grid,
+          structure_segments, cue_points, analysis_provenance, tempo_candidates, tempo_curve,
+          energy_curve, descriptors, audio_start, audio_end, owner_user_id, is_private, storage_path,
+          key_modulations, intro_key, outro_key, quality, quality_grade, analyzer_version, provider_versions,
+          intro_camelot_key
+        ) VALUES (
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23,
+          $24, $25, $26, $27, $28, $29, $30, $31, $32, $33, $34, $35, $36, $37, $38, $39, $40, $41, $42,
+          $43, $44, $45, $46, $47
+        ) ON CONFLICT (youtube_id) DO UPDATE SET
+          title = EXCLUDED.title,
+          artist = EXCLUDED.artist,
+          bpm = COALESCE(EXCLUDED.bpm, tracks.bpm),
+          musical_key = COALESCE(EXCLUDED.musical_key, tracks.musical_key),
+          camelot_key = COALESCE(EXCLUDED.camelot_key, tracks.camelot_key),
+          tempo_confidence = COALESCE(EXCLUDED.tempo_confidence, tracks.tempo_confidence),
+          key_confidence = COALESCE(EXCLUDED.key_confidence, tracks.key_confidence),
+          key_modulations = COALESCE(EXCLUDED.key_modulations, tracks.key_modulations),
+          intro_key = COALESCE(EXCLUDED.intro_key, tracks.intro_key),
+          outro_key = COALESCE(EXCLUDED.outro_key, tracks.outro_key),
+          intro_camelot_key = COALESCE(EXCLUDED.intro_camelot_key, tracks.intro_camelot_key),
+          loudness = COALESCE(EXCLUDED.loudness, tracks.loudness),
+          loudness_short_term_max = COALESCE(EXCLUDED.loudness_short_term_max, tracks.loudness_short_term_max),
+          true_peak = COALESCE(EXCLUDED.true_peak, tracks.true_peak),
+          loudness_range = COALESCE(EXCLUDED.loudness_range, tracks.loudness_range),
+          beat_grid = COALESCE(EXCLUDED.beat_grid, tracks.beat_grid),
+          structure_segments = COALESCE(EXCLUDED.structure_segments, tracks.structure_segments),
+          cue_points = COALESCE(EXCLUDED.cue_points, tracks.cue_points),
+          tempo_candidates = COALESCE(EXCLUDED.tempo_candidates, tracks.tempo_candidates),
+          tempo_curve = COALESCE(EXCLUDED.tempo_curve, tracks.tempo_curve),
+          energy_level = COALESCE(EXCLUDED.energy_level, tracks.energy_level),
+          energy_curve = COALESCE(EXCLUDED.energy_curve, tracks.energy_curve),
+          waveform_peaks = COALESCE(EXCLUDED.waveform_peaks, tracks.waveform_peaks),
+          descriptors = COALESCE(EXCLUDED.descriptors, tracks.descriptors),
+          audio_start = COALESCE(EXCLUDED.audio_start, tracks.audio_start),
+          audio_end = COALESCE(EXCLUDED.audio_end, tracks.audio_end),
+          quality = COALESCE(EXCLUDED.quality, tracks.quality),
+          quality_grade = COALESCE(EXCLUDED.quality_grade, tracks.quality_grade),
+          analysis_provenance = COALESCE(EXCLUDED.analysis_provenance, tracks.analysis_provenance),
+          analyzer_version = COALESCE(EXCLUDED.analyzer_version, tracks.analyzer_version),
+          provider_versions = COALESCE(EXCLUDED.provider_versions, tracks.provider_versions),
+          analysis_status = EXCLUDED.analysis_status,
+          analysis_completed_at = COALESCE(EXCLUDED.analysis_completed_at, tracks.analysis_completed_at),
+          updated_at = CURRENT_TIMESTAMP
+        RETURNING id
+      `, [
+        track.id, track.youtubeId, track.title, track.artist, track.durationSeconds,
+        track.thumbnailUrl, track.youtubeUrl, track.audioUrl, track.bpm, track.musicalKey,
+        track.camelotKey, track.energyLevel, track.loudness, track.tempoConfidence,
+        track.keyConfidence, JSON.stringify(track.waveformPeaks), track.genre, track.mood,
+        track.tags || [], track.analysisStatus, track.analysisCompletedAt,
+        track.createdAt, track.updatedAt, track.loudnessShortTermMax, track.truePeak, track.loudnessRange,
+        track.beatGrid ? JSON.stringify(track.beatGrid) : null,
+        track.structure ? JSON.stringify(track.structure) : null,
+        track.cuePoints ? JSON.stringify(track.cuePoints) : null,
+        track.analysisProvenance ? JSON.stringify(track.analysisProvenance) : null,
+        track.tempoCandidates ? JSON.stringify(track.tempoCandidates) : null,
+        track.tempoCurve ? JSON.stringify(track.tempoCurve) : null,
+        track.energyCurve ? JSON.stringify(track.energyCurve) : null,
+        track.descriptors ? JSON.stringify(track.descriptors) : null,
+        track.audioStart, track.audioEnd, track.ownerUserId || null, track.isPrivate || false,
+        track.storagePath || null,
+        track.keyModulations ? JSON.stringify(track.keyModulations) : null,
+        track.introKey, track.outroKey,
+        track.quality ? JSON.stringify(track.quality) : null, track.quality?.grade || null,
+        track.analyzerVersion || null,
+        track.providerVersions ? JSON.stringify(track.providerVersions) : null,
+        introCamelotKey(track)
+      ]);
+
+      return row?.id || null;
+    } catch (error) {
+      logger.error('Failed to save track to database:', error);
+      // Don't throw - this shouldn't break the main request
+      return null;
+    }
+  }
+
+  /**
+   * Get a stored track by ID. Private tracks are only returned to their owner.
+   */
+  async getById(id: string, viewerId?: string): Promise<Track | null> {
+    const row = await database.queryOne(
+      'SELECT * FROM tracks WHERE id = $1 AND (is_private = false OR owner_user_id = $2)',
+      [id, viewerId || null]
+    );
+    return row ? mapTrackRow(row) : null;
+  }
+
+  /**
+   * Store a track's fingerprint and the track it duplicates, if any
+   */
+  async saveFingerprint(trackId: string, fingerprint: string, canonicalTrackId?: string): Promise<void> {
+    try {
+      await database.query(
+        'UPDATE tracks SET fingerprint = $2, fingerprint_hashes = $3, canonical_track_id = $4 WHERE id = $1',
+        [trackId, fingerprint, fingerprintHashes(fingerprint), canonicalTrackId || null]
+      );
+    } catch (error) {
+      logger.error('Failed to save fingerprint:', error);
+    }
+  }
+
+  /**
+   * IDs of tracks analyzed by a pipeline older than `targetVersion` (or never
+   * versioned), optionally including failed analyses, oldest first
+   */
+  async findStaleAnalysisIds(targetVersion: string, includeFailed: boolean, limit: number): Promise<string[]> {
+    const rows = await database.query<{ id: string }>(`
+      SELECT id FROM tracks
+      WHERE (
+        analysis_status = 'completed' AND (
+          analyzer_version IS NULL
+          OR string_to_array(analyzer_version, '.')::int[] < string_to_array($1, '.')::int[]
+        )
+      ) OR ($2 AND analysis_status = 'failed')
+      ORDER BY analysis_completed_at ASC NULLS FIRST
+      LIMIT $3
+    `, [targetVersion, includeFailed, limit]);
+    return rows.map(row => row.id);
+  }
+
+  /**
+   * Get a stored track regardless of privacy, for internal jobs
+   */
+  async getForAnalysis(id: string): Promise<Track | null> {
+    const row = await database.queryOne('SELECT * FROM tracks WHERE id = $1', [id]);
+    return row ? mapTrackRow(row) : null;
+  }
+
+  /**
+   * Replace a stored track's analysis with a fresh one
+   */
+  async saveAnalysis(track: Track): Promise<void> {
+    await database.query(`
+      UPDATE tracks SET
+        bpm = $2, musical_key = $3, camelot_key = $4, energy_level = $5, energy_curve = $6,
+        descriptors = $7, loudness = $8, loudness_short_term_max = $9, true_peak = $10,
+        loudness_range = $11, tempo_confidence = $12, tempo_candidates = $13, tempo_curve = $14,
+        key_confidence = $15, key_modulations = $16, intro_key = $17, outro_key = $18,
+        analysis_provenance = $19, beat_grid = $20, structure_segments = $21, cue_points = $22,
+        waveform_peaks = $23, audio_start = $24, audio_end = $25, quality = $26, quality_grade = $27,
+        analyzer_version = $28, provider_versions = $29, genre = $30, analysis_status = $31,
+        analysis_completed_at = $32, intro_camelot_key = $33, backfill_error = NULL, backfill_failed_at = NULL,
+        updated_at = CURRENT_TIMESTAMP
+      WHERE id = $1
+    `, [
+      track.id, track.bpm, track.musicalKey, track.camelotKey, track.energyLevel,
+      track.energyCurve ? JSON.stringify(track.energyCurve) : null,
+      track.descriptors ? JSON.stringify(track.descriptors) : null,
+      track.loudness, track.loudnessShortTermMax, track.truePeak, track.loudnessRange,
+      track.tempoConfidence,
+      track.tempoCandidates ? JSON.stringify(track.tempoCandidates) : null,
+      track.tempoCurve ? JSON.stringify(track.tempoCurve) : null,
+      track.keyConfidence,
+      track.keyModulations ? JSON.stringify(track.keyModulations) : null,
+      track.introKey, track.outroKey,
+      track.analysisProvenance ? JSON.stringify(track.analysisProvenance) : null,
+      track.beatGrid ? JSON.stringify(track.beatGrid) : null,
+      track.structure ? JSON.stringify(track.structure) : null,
+      track.cuePoints ? JSON.stringify(track.cuePoints) : null,
+      JSON.stringify(track.waveformPeaks), track.audioStart, track.audioEnd,
+      track.quality ? JSON.stringify(track.quality) : null, track.quality?.grade || null,
+      track.analyzerVersion || null,
+      track.providerVersions ? JSON.stringify(track.providerVersions) : null,
+      track.genre, track.analysisStatus, track.analysisCompletedAt, introCamelotKey(track)
+    ]);
+  }
+
+  /**
+   * Record that analysis of a stored track failed
+   */
+  async markAnalysisFailed(id: string): Promise<void> {
+    await database.query(
+      `UPDATE tracks SET analysis_status = 'failed', updated_at = CURRENT_TIMESTAMP WHERE id = $1`,
+      [id]
+    );
+  }
+
+  /**
+   * Record that re-analysis of a track failed, keeping its previous analysis
+   */
+  async markBackfillFailed(id: string, message: string): Promise<void> {
+    await database.query(
+      'UPDATE tracks SET backfill_error = $2, backfill_failed_at = CURRENT_TIMESTAMP WHERE id = $1',
+      [id, message]
+    );
+  }
+
+  /**
+   * Stored tracks whose fingerprint matches, most similar first. Candidates are
+   * looked up by shared sub-fingerprints (GIN-indexed) and only those sharing
+   * the most, closest in duration first, are compared in full.
+   */
+  async findByFingerprint(
+    fingerprint: string,
+    options: { durationSeconds?: number; excludeYoutubeId?: string } = {}
+  ): Promise<{ track: Track; similarity: number }[]> {
+    const hashes = fingerprintHashes(fingerprint);
+    if (hashes.length === 0) return [];
+
+    const rows = await database.query(`
+      SELECT * FROM (
+        SELECT t.*, (SELECT COUNT(*) FROM unnest(t.fingerprint_hashes) AS hash WHERE hash = ANY($1)) AS shared_hashes
+        FROM tracks t
+        WHERE t.fingerprint_hashes && $1
+          AND t.is_private = false
+          AND ($2::text IS NULL OR t.youtube_id <> $2)
+          AND ($3::int IS NULL OR t.duration_seconds IS NULL OR ABS(t.duration_seconds - $3) <= $4)
+      ) candidates
+      ORDER BY shared_hashes DESC, ABS(duration_seconds - $3) NULLS LAST
+      LIMIT $5
+    `, [
+      hashes,
+      options.excludeYoutubeId || null,
+      options.durationSeconds ? Math.round(options.durationSeconds) : null,
+      FINGERPRINT_DURATION_TOLERANCE,
+      FINGERPRINT_CANDIDATE_LIMIT
+    ]);
+
+    return rows
+      .map(row => ({ track: mapTrackRow(row), similarity: compareFingerprints(fingerprint, row.fingerprint) }))
+      .filter(match => match.similarity >= DUPLICATE_SIMILARITY)
+      .sort((a, b) => b.similarity - a.similarity);
+  }
+
+  /**
+   * Stored tracks that mix well after `track`, best first. The track's outro
+   * key is matched against each candidate's intro key, falling back to the
+   * main key, and tempos must be within `bpmTolerance` (relative) at normal,
+   * half or double time. Other copies of the same recording are left out,
+   * and private tracks are only included for their owner.
+   */
+  async findCompatible(
+    track: Track,
+    options: CompatibilityOptions & { bpmTolerance: number; limit: number; viewerId?: string }
+  ): Promise<CompatibleTrack[]> {
+    const fromCamelot = convertToCamelot(track.outroKey || track.musicalKey);
+    if (!fromCamelot || !track.bpm) return [];
+
+    // Best key move first, so the candidate cap keeps the best matches
+    const keys = compatibleKeys(fromCamelot, options).sort((a, b) => b.score - a.score);
+    const rows = await database.query(`
+      SELECT * FROM tracks
+      WHERE id <> $1
+        AND id <> $2
+        AND canonical_track_id IS DISTINCT FROM $1
+        AND canonical_track_id IS DISTINCT FROM $2
+        AND analysis_status = 'completed'
+        AND intro_camelot_key = ANY($3::text[])
+        AND bpm IS NOT NULL
+        AND (ABS(bpm - $4) <= $4 * $5 OR ABS(bpm - $4 / 2) <= $4 / 2 * $5 OR ABS(bpm - $4 * 2) <= $4 * 2 * $5)
+        AND (is_private = false OR owner_user_id = $6)
+      ORDER BY
+        array_position($3::text[], intro_camelot_key::text),
+        LEAST(ABS(bpm - $4) / $4, ABS(bpm - $4 / 2) / ($4 / 2), ABS(bpm - $4 * 2) / ($4 * 2))
+      LIMIT $7
+    `, [
+      track.id,
+      track.canonicalTrackId || track.id,
+      keys.map(key => key.camelotKey),
+      track.bpm,
+      options.bpmTolerance,
+      options.viewerId || null,
+      COMPATIBLE_CANDIDATE_LIMIT
+    ]);
+
+    // Re-uploads of one recording are listed once, at their best score
+    const byRecording = new Map<string, CompatibleTrack>();
+    for (const row of rows) {
+      const candidate = mapTrackRow(row);
+      const key = keys.find(({ camelotKey }) => camelotKey === row.intro_camelot_key);
+      const tempo = candidate.bpm ? matchTempo(track.bpm, candidate.bpm, options.bpmTolerance) : null;
+      if (!key || !tempo || !candidate.bpm) continue;
+
+      const match: CompatibleTrack = {
+        track: candidate,
+        score: compatibilityScore(key, tempo, options.bpmTolerance),
+        keyRelation: key.relation,
+        tempoRelation: tempo.relation,
+        reason: describeCompatibility(fromCamelot, key, tempo, candidate.bpm)
+      };
+      const recording = candidate.canonicalTrackId || candidate.id;
+      const existing = byRecording.get(recording);
+      if (!existing || match.score > existing.score) byRecording.set(recording, match);
+    }
+
+    return Array.from(byRecording.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, options.limit);
+  }
+
+  /**
+   * Fill in the normalized intro Camelot key of tracks stored before it was
+   * kept, whatever spelling their keys were stored in. Returns how many were set.
+   */
+  async backfillCamelotKeys(): Promise<number> {
+    let updated = 0;
+    let lastId = '00000000-0000-0000-0000-000000000000';
+
+    for (;;) {
+      const rows = await database.query<{ id: string; musical_key: string | null; intro_key: string | null }>(`
+        SELECT id, musical_key, intro_key FROM tracks
+        WHERE intro_camelot_key IS NULL AND COALESCE(intro_key, musical_key) IS NOT NULL AND id > $1
+        ORDER BY id
+        LIMIT $2
+      `, [lastId, CAMELOT_BACKFILL_BATCH]);
+      if (rows.length === 0) return updated;
+
+      for (const row of rows) {
+        const camelotKey = convertToCamelot(row.intro_key || row.musical_key);
+        if (camelotKey) {
+          await database.query('UPDATE tracks SET intro_camelot_key = $2 WHERE id = $1', [row.id, camelotKey]);
+          updated++;
+        }
+      }
+      lastId = rows[rows.length - 1].id;
+    }
+  }
+
+  /**
+   * Get a track's stored fingerprint
+   */
+  async getFingerprint(trackId: string): Promise<string | null> {
+    const row = await database.queryOne<{ fingerprint: string | null }>(
+      'SELECT fingerprint FROM tracks WHERE id = $1',
+      [trackId]
+    );
+    return row?.fingerprint || null;
+  }
+
+  /**
+   * Give a duplicate the waveform zoom levels of the track it was matched to
+   */
+  async copyWaveformLevels(fromTrackId: string, toTrackId: string): Promise<void> {
+    try {
+      await database.query(`
+        INSERT INTO track_waveforms (track_id, pixels_per_second, duration, data)
+        SELECT $2, pixels_per_second, duration, data FROM track_waveforms WHERE track_id = $1
+        ON CONFLICT (track_id, pixels_per_second) DO NOTHING
+      `, [fromTrackId, toTrackId]);
+    } catch (error) {
+      logger.error('Failed to copy waveform levels:', error);
+    }
+  }
+
+  /**
+   * Replace the stored zoom levels of a track's waveform
+   */
+  async saveWaveformLevels(trackId: string, levels: WaveformLevel[]): Promise<void> {
+    try {
+      for (const level of levels) {
+        const { pixelsPerSecond, duration, ...data } = level;
+        await database.query(`
+          INSERT INTO track_waveforms (track_id, pixels_per_second, duration, data)
+          VALUES ($1, $2, $3, $4)
+          ON CONFLICT (track_id, pixels_per_second) DO UPDATE SET
+            duration = EXCLUDED.duration,
+            data = EXCLUDED.data,
+            created_at = CURRENT_TIMESTAMP
+        `, [trackId, pixelsPerSecond, duration, JSON.stringify(data)]);
+      }
+    } catch (error) {
+      logger.error('Failed to save waveform levels:', error);
+    }
+  }
+
+  /**
+   * Get one zoom level of a track's waveform
+   */
+  async getWaveformLevel(trackId: string, pixelsPerSecond: number): Promise<WaveformLevel | null> {
+    const row = await database.queryOne(`
+      SELECT pixels_per_second, duration, data FROM track_waveforms
+      WHERE track_id = $1 AND pixels_per_second = $2
+    `, [trackId, pixelsPerSecond]);
+
+    return row ? {
+      pixelsPerSecond: row.pixels_per_second,
+      duration: Number(row.duration),
+      ...row.data
+    } : null;
+  }
+
+  /**
+   * Zoom levels stored for a track, in pixels per second
+   */
+  async getWaveformZoomLevels(trackId: string): Promise<number[]> {
+    const rows = await database.query<{ pixels_per_second: number }>(
+      'SELECT pixels_per_second FROM track_waveforms WHERE track_id = $1 ORDER BY pixels_per_second',
+      [trackId]
+    );
+    return rows.map(row => row.pixels_per_second);
+  }
+}
+
+/**
+ * Camelot key a track is mixed into on, from its intro key or main key in any spelling
+ */
+function introCamelotKey(track: Track): string | null {
+  return convertToCamelot(track.introKey || track.musicalKey) || null;
+}
+
+/**
+ * Map a `tracks` row to the API representation. DECIMAL columns arrive as strings.
+ */
+export function mapTrackRow(row: any): Track {
+  const toNumber = (value: any) => (value === null || value === undefined ? undefined : Number(value));
+
+  return {
+    id: row.id,
+    youtubeId: row.youtube_id ?? undefined,
+    title: row.title,
+    artist: row.artist ?? undefined,
+    durationSeconds: toNumber(row.duration_seconds),
+    thumbnailUrl: row.thumbnail_url ?? undefined,
+    youtubeUrl: row.youtube_url ?? undefined,
+    audioUrl: row.audio_url ?? undefined,
+    bpm: toNumber(row.bpm),
+    musicalKey: row.musical_key ?? undefined,
+    camelotKey: row.camelot_key ?? undefined,
+    energyLevel: toNumber(row.energy_level),
+    energyCurve: row.energy_curve ?? undefined,
+    descriptors: row.descriptors ?? undefined,
+    loudness: toNumber(row.loudness),
+    loudnessShortTermMax: toNumber(row.loudness_short_term_max),
+    truePeak: toNumber(row.true_peak),
+    loudnessRange: toNumber(row.loudness_range),
+    tempoConfidence: toNumber(row.tempo_confidence),
+    tempoCandidates: row.tempo_candidates ?? undefined,
+    tempoCurve: row.tempo_curve ?? undefined,
+    keyConfidence: toNumber(row.key_confidence),
+    keyModulations: row.key_modulations ?? undefined,
+    introKey: row.intro_key ?? undefined,
+    outroKey: row.outro_key ?? undefined,
+    analysisProvenance: row.analysis_provenance ?? undefined,
+    analyzerVersion: row.analyzer_version ?? undefined,
+    providerVersions: row.provider_versions ?? undefined,
+    beatGrid: row.beat_grid ?? undefined,
+    structure: row.structure_segments ?? undefined,
+    cuePoints: row.cue_points ?? undefined,
+    waveformPeaks: row.waveform_peaks ?? undefined,
+    waveformDuration: toNumber(row.waveform_duration),
+    audioStart: toNumber(row.audio_start),
+    audioEnd: toNumber(row.audio_end),
+    quality: row.quality ?? undefined,
+    ownerUserId: row.owner_user_id ?? undefined,
+    isPrivate: row.is_private ?? false,
+    storagePath: row.storage_path ?? undefined,
+    canonicalTrackId: row.canonical_track_id ?? undefined,
+    genre: row.genre ?? undefined,
+    mood: row.mood ?? undefined,
+    tags: row.tags ?? undefined,
+    analysisStatus: row.analysis_status,
+    analysisCompletedAt: row.analysis_completed_at ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Copy analysis results onto a track
+ */
+export function applyAnalysis(track: Track, analysis: AudioAnalysisResult): void {
+  if (analysis.bpm) track.bpm = analysis.bpm;
+  if (analysis.musicalKey) track.musicalKey = analysis.musicalKey;
+  if (analysis.camelotKey) track.camelotKey = analysis.camelotKey;
+  if (analysis.keyModulations) track.keyModulations = analysis.keyModulations;
+  if (analysis.introKey) track.introKey = analysis.introKey;
+  if (analysis.outroKey) track.outroKey = analysis.outroKey;
+  if (analysis.energyLevel !== undefined) track.energyLevel = analysis.energyLevel;
+  if (analysis.energyCurve) track.energyCurve = analysis.energyCurve;
+  if (analysis.descriptors) track.descriptors = analysis.descriptors;
+  if (analysis.loudness !== undefined) track.loudness = analysis.loudness;
+  if (analysis.loudnessShortTermMax !== undefined) track.loudnessShortTermMax = analysis.loudnessShortTermMax;
+  if (analysis.truePeak !== undefined) track.truePeak = analysis.truePeak;
+  if (analysis.loudnessRange !== undefined) track.loudnessRange = analysis.loudnessRange;
+  if (analysis.waveformPeaks) track.waveformPeaks = analysis.waveformPeaks;
+  if (analysis.beatGrid) track.beatGrid = analysis.beatGrid;
+  if (analysis.structure) track.structure = analysis.structure;
+  if (analysis.cuePoints) track.cuePoints = analysis.cuePoints;
+  if (analysis.audioStart !== undefined) track.audioStart = analysis.audioStart;
+  if (analysis.audioEnd !== undefined) track.audioEnd = analysis.audioEnd;
+  if (analysis.quality) track.quality = analysis.quality;
+  if (analysis.genre && !track.genre) track.genre = analysis.genre;
+  if (analysis.mood && !track.mood) track.mood = analysis.mood;
+
+  track.tempoConfidence = analysis.tempoConfidence;
+  track.tempoCandidates = analysis.tempoCandidates;
+  track.tempoCurve = analysis.tempoCurve;
+  track.keyConfidence = analysis.keyConfidence;
+  track.analysisProvenance = analysis.provenance;
+  track.analyzerVersion = analysis.analyzerVersion;
+  track.providerVersions = analysis.providerVersions;
+}
+
+export const trackService = new TrackService();
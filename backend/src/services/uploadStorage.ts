@@ -0,0 +1,46 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from '@/utils/logger';
+
+class UploadStorageService {
+  private directory: string;
+
+  constructor() {
+    this.directory = path.resolve(process.env.UPLOAD_STORAGE_DIR || './storage/uploads');
+  }
+
+  /**
+   * Move an uploaded file into permanent storage under the track's ID.
+   * Returns the stored path.
+   */
+  async persist(tempPath: string, trackId: string): Promise<string> {
+    await fs.mkdir(this.directory, { recursive: true });
+    const storagePath = path.join(this.directory, `${trackId}${path.extname(tempPath)}`);
+
+    try {
+      await fs.rename(tempPath, storagePath);
+    } catch (error: any) {
+      // The temp directory may be on another device
+      if (error.code !== 'EXDEV') throw error;
+      await fs.copyFile(tempPath, storagePath);
+      await fs.unlink(tempPath);
+    }
+
+    return storagePath;
+  }
+
+  /**
+   * Delete a temporary upload, if it is still there
+   */
+  async discard(tempPath: string): Promise<void> {
+    try {
+      await fs.unlink(tempPath);
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.error('Failed to delete upload:', error);
+      }
+    }
+  }
+}
+
+export const uploadStorage = new UploadStorageService();
@@ -0,0 +1,53 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { database } from '@/utils/database';
+import { logger } from '@/utils/logger';
+import { WebhookEvent } from '@/types';
+
+const DELIVERY_TIMEOUT_MS = 5000;
+
+class WebhookService {
+  /**
+   * Deliver an event to the user's active webhooks subscribed to it. Bodies
+   * are signed with HMAC-SHA256 using the webhook's secret (or WEBHOOK_SECRET).
+   * Failures are logged, never thrown.
+   */
+  async dispatch(userId: string | undefined, type: string, data: any): Promise<void> {
+    if (!userId || process.env.ENABLE_WEBHOOK_NOTIFICATIONS === 'false') return;
+
+    try {
+      const webhooks = await database.query<{ url: string; secret: string | null }>(
+        'SELECT url, secret FROM webhooks WHERE user_id = $1 AND is_active = true AND $2 = ANY(events)',
+        [userId, type]
+      );
+      const event: WebhookEvent = { type, data, timestamp: new Date() };
+      const body = JSON.stringify(event);
+
+      await Promise.all(webhooks.map(webhook => this.deliver(webhook.url, webhook.secret, type, body)));
+    } catch (error) {
+      logger.error(`Failed to dispatch ${type} webhooks:`, error);
+    }
+  }
+
+  private async deliver(url: string, secret: string | null, type: string, body: string): Promise<void> {
+    const signature = crypto
+      .createHmac('sha256', secret || process.env.WEBHOOK_SECRET || '')
+      .update(body)
+      .digest('hex');
+
+    try {
+      await axios.post(url, body, {
+        headers: {
+          'Content-Type': 'application/json',
+          'X-MusicForge-Event': type,
+          'X-MusicForge-Signature': `sha256=${signature}`
+        },
+        timeout: DELIVERY_TIMEOUT_MS
+      });
+    } catch (error) {
+      logger.warn(`Webhook delivery to ${url} failed:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+export const webhookService = new WebhookService();
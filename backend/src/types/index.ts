@@ -47,6 +47,10 @@ export interface ProcessedQuery {
     mood?: string[];
     energy?: { min?: number; max?: number };
     duration?: { min?: number; max?: number };
+    danceability?: { min?: number; max?: number };
+    brightness?: { min?: number; max?: number };
+    acousticness?: { min?: number; max?: number };
+    vocals?: 'vocal' | 'instrumental';
   };
   maxResults?: number;
   sortBy?: 'relevance' | 'popularity' | 'date' | 'bpm' | 'energy';
@@ -69,7 +73,7 @@ export interface ProcessingStep {
 // Track and Audio Analysis Types
 export interface Track {
   id: string;
-  youtubeId: string;
+  youtubeId?: string; // absent for uploaded files
   title: string;
   artist?: string;
   durationSeconds?: number;
@@ -82,36 +86,318 @@ export interface Track {
   musicalKey?: string;
   camelotKey?: string;
   energyLevel?: number; // 0-1
-  loudness?: number; // LUFS
+  energyCurve?: EnergyCurve;
+  descriptors?: AudioDescriptors;
+  loudness?: number; // integrated LUFS
+  loudnessShortTermMax?: number; // LUFS
+  truePeak?: number; // dBTP
+  loudnessRange?: number; // LU
   tempoConfidence?: number;
+  tempoCandidates?: TempoCandidate[];
+  tempoCurve?: TempoCurve;
   keyConfidence?: number;
+  keyModulations?: KeyModulation[];
+  introKey?: string; // key at the start of the music, for mixing in
+  outroKey?: string; // key at the end, for mixing out
+  analysisProvenance?: AnalysisProvenance;
+  analyzerVersion?: string; // of the pipeline that produced the stored analysis
+  providerVersions?: Record<string, string>; // provider name -> version
   
+  // Beat grid and structure
+  beatGrid?: BeatGrid;
+  structure?: StructureSegment[];
+  cuePoints?: CuePoint[];
+
   // Waveform
   waveformPeaks?: number[];
   waveformDuration?: number;
+
+  // Where the music starts and ends, past leading/trailing silence or speech (seconds)
+  audioStart?: number;
+  audioEnd?: number;
+
+  // Source quality, to tell a lossless rip from an upscaled low-bitrate upload
+  quality?: AudioQuality;
   
   // Metadata
   genre?: string;
   mood?: string;
   tags?: string[];
   
+  // Uploaded files are kept privately for the uploader
+  ownerUserId?: string;
+  isPrivate?: boolean;
+  storagePath?: string;
+
+  // Re-uploads of the same recording point at the first stored copy
+  canonicalTrackId?: string;
+  alternateYoutubeIds?: string[]; // other uploads collapsed into this result
+  
   analysisStatus: 'pending' | 'processing' | 'completed' | 'failed';
   analysisCompletedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// How a track mixes with another: the move on the Camelot wheel, and the tempo alignment
+export type KeyRelation = 'same' | 'adjacent' | 'relative' | 'energy_boost';
+export type TempoRelation = 'same' | 'half' | 'double';
+
+export interface CompatibleTrack {
+  track: Track;
+  score: number; // 0-1
+  keyRelation: KeyRelation;
+  tempoRelation: TempoRelation;
+  reason: string;
+}
+
+// How a DJ set's energy should move from the first track to the last
+export type EnergyShape = 'flat' | 'build_up' | 'peak_and_release';
+
+export interface SetOrderRequest {
+  trackIds?: string[];
+  requestId?: string; // of a POST /music/process request, to order its tracks
+  energyShape?: EnergyShape;
+  firstTrackId?: string;
+  lastTrackId?: string;
+}
+
+export interface SetTransition {
+  fromTrackId: string;
+  toTrackId: string;
+  score: number; // 0-1, weighted from the parts below
+  keyScore: number;
+  tempoScore: number;
+  energyScore: number; // how well the incoming track fits the energy shape at its position
+  keyRelation?: KeyRelation;
+  tempoRelation?: TempoRelation;
+  warnings: string[];
+}
+
+export interface SetOrder {
+  trackIds: string[];
+  energyShape: EnergyShape;
+  score: number; // mean transition score
+  transitions: SetTransition[];
+  warnings: string[];
+}
+
+// Transition plans: times are seconds in each track's own (unadjusted) timeline
+export type TransitionStyle = 'blend' | 'drop_swap' | 'short_blend';
+
+export interface TransitionTempo {
+  outgoingBpm: number;
+  incomingBpm: number;
+  relation: TempoRelation;
+  adjustedBpm: number; // incoming tempo once matched to the outgoing track
+  adjustmentPercent: number; // pitch fader change on the incoming track
+}
+
+export interface TransitionPlan {
+  style: TransitionStyle;
+  bars: number;
+  duration: number; // seconds, at the outgoing track's tempo
+  mixOut: { start: number; end: number }; // outgoing track: incoming starts, outgoing gone
+  mixIn: { start: number; end: number }; // incoming track: where to cue it, where it plays alone
+  eqSwap: { bar: number; outgoingTime: number; incomingTime: number }; // bar of the transition where the bass is handed over
+  score: number; // 0-1
+  description: string;
+}
+
+// Key lock plus a small pitch shift on the incoming track, to make a transition harmonic
+export interface PitchShiftSuggestion {
+  fromTrackId: string;
+  toTrackId: string;
+  fromCamelotKey?: string; // outgoing key as played, after any shift suggested for it
+  originalCamelotKey?: string; // incoming key before the shift
+  semitones: number;
+  resultingKey?: string;
+  resultingCamelotKey?: string;
+  keyRelation?: KeyRelation; // of the resulting key to the outgoing one
+  pitchChangePercent: number;
+  originalBpm?: number;
+  adjustedBpm?: number; // incoming tempo once matched to the outgoing track
+  tempoChangePercent?: number;
+  keyLock: boolean; // needed to change tempo and pitch independently
+  compatible: boolean;
+  warnings: string[];
+}
+
+export interface Mix {
+  id: string;
+  userId?: string;
+  outgoingTrackId: string;
+  incomingTrackId: string;
+  tempo: TransitionTempo;
+  plans: TransitionPlan[];
+  warnings: string[];
+  createdAt: Date;
+}
+
 export interface AudioAnalysisResult {
   bpm?: number;
   musicalKey?: string;
   camelotKey?: string;
   energyLevel?: number;
+  energyCurve?: EnergyCurve;
+  descriptors?: AudioDescriptors;
   loudness?: number;
+  loudnessShortTermMax?: number;
+  truePeak?: number;
+  loudnessRange?: number;
   tempoConfidence?: number;
+  tempoCandidates?: TempoCandidate[];
+  tempoCurve?: TempoCurve;
   keyConfidence?: number;
+  keyModulations?: KeyModulation[];
+  introKey?: string;
+  outroKey?: string;
   waveformPeaks?: number[];
+  waveformLevels?: WaveformLevel[];
+  beatGrid?: BeatGrid;
+  structure?: StructureSegment[];
+  cuePoints?: CuePoint[];
+  audioStart?: number;
+  audioEnd?: number;
+  quality?: AudioQuality;
   genre?: string;
   mood?: string;
+  provenance?: AnalysisProvenance;
+  analyzerVersion?: string;
+  providerVersions?: Record<string, string>;
+}
+
+// A section of a track to analyze on its own
+export interface TimeWindow {
+  start: number; // seconds
+  end: number; // seconds
+}
+
+// Tags embedded in an uploaded file
+export interface AudioFileTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  genre?: string;
+  year?: number;
+  bpm?: number;
+  key?: string;
+  durationSeconds?: number;
+  format?: {
+    container?: string;
+    codec?: string;
+    sampleRate?: number;
+    bitrate?: number;
+    channels?: number;
+  };
+}
+
+// Local tempo over time, for tracks that drift
+export interface TempoCurve {
+  points: { time: number; bpm: number }[]; // time in seconds, at window centres
+  min: number;
+  max: number;
+  median: number;
+  stability: 'constant' | 'variable';
+}
+
+// Energy per fixed interval; every series is 0-1
+export interface EnergyCurve {
+  interval: number; // seconds per point
+  start?: number; // seconds; set when the curve covers a window of the track
+  energy: number[]; // combined score
+  rms: number[];
+  spectralFlux: number[]; // relative to the track's strongest onsets
+  percussiveDensity: number[];
+}
+
+// Perceptual descriptors; all but the centroid are 0-1 likelihoods
+export interface AudioDescriptors {
+  spectralCentroid: number; // Hz
+  brightness: number; // share of energy above 1.5 kHz
+  danceability: number;
+  acousticness: number; // 0 = electronic, 1 = acoustic
+  vocalLikelihood: number; // 0 = instrumental, 1 = vocal
+}
+
+export type QualityGrade = 'A' | 'B' | 'C' | 'D' | 'F';
+
+// Source audio quality; percentages are of all samples
+export interface AudioQuality {
+  grade: QualityGrade;
+  score: number; // 0-100
+  bandwidthHz: number; // highest frequency with real content
+  estimatedBitrate?: number; // kbps of a lossy source cut off there; absent for full-band audio
+  clippedPercent: number;
+  limitedPercent: number; // samples within 0.1 dB of the peak
+  channels: 'stereo' | 'mono'; // content, not container: identical channels count as mono
+  stereoWidth: number; // side/mid energy ratio
+  dcOffset: number; // largest channel mean
+}
+
+// A point where the key changes
+export interface KeyModulation {
+  time: number; // seconds
+  fromKey: string;
+  toKey: string;
+  fromCamelot?: string;
+  toCamelot?: string;
+}
+
+// Alternative tempo readings (detected tempo times `multiplier`), best first
+export interface TempoCandidate {
+  bpm: number;
+  multiplier: number;
+  score: number; // 0-1, scores sum to 1
+}
+
+// Groups of analysis output that a provider can produce
+export type AnalysisField = 'bpm' | 'tempoCurve' | 'key' | 'energy' | 'descriptors' | 'loudness' | 'genre' | 'beatGrid' | 'structure' | 'waveform' | 'bounds' | 'keyTimeline' | 'quality';
+
+// Which provider's value was kept for a field, and who agreed or was overruled
+export interface FieldProvenance {
+  provider: string;
+  providerVersion: string;
+  confidence: number; // 0-1, after fusion
+  agreeing: string[];
+  overruled: { provider: string; value: unknown; confidence: number }[];
+}
+
+export type AnalysisProvenance = Partial<Record<AnalysisField, FieldProvenance>>;
+
+export interface BeatGrid {
+  bpm: number;
+  firstBeatOffset: number; // seconds
+  beatsPerBar: number;
+  beats: number[]; // seconds
+  downbeats: number[]; // seconds, first beat of each bar
+}
+
+// Zoomable waveform, one per resolution. Amplitudes are quantized:
+// min/max to -127..127, band energies to 0..255.
+export interface WaveformLevel {
+  pixelsPerSecond: number;
+  duration: number; // seconds
+  min: number[];
+  max: number[];
+  low: number[];
+  mid: number[];
+  high: number[];
+}
+
+export type SegmentLabel = 'intro' | 'verse' | 'build' | 'drop' | 'breakdown' | 'outro';
+
+export interface StructureSegment {
+  label: SegmentLabel;
+  start: number; // seconds
+  end: number; // seconds
+  bars: number;
+  energy: number; // 0-1, relative to the loudest section of the track
+}
+
+export interface CuePoint {
+  name: 'mix_in' | 'first_drop' | 'mix_out';
+  time: number; // seconds
 }
 
 // YouTube Types
@@ -161,6 +447,7 @@ export interface ProcessMusicRequest {
   analyzeAudio?: boolean;
   downloadQuality?: 'standard' | 'high';
   responseFormat?: 'json' | 'detailed';
+  minQuality?: QualityGrade; // drop tracks graded below this
 }
 
 export interface SearchRequest {
@@ -174,7 +461,38 @@ export interface SearchRequest {
 export interface AnalyzeRequest {
   youtubeUrl?: string;
   audioUrl?: string;
-  analysisType?: ('bpm' | 'key' | 'energy' | 'waveform')[];
+  analysisType?: ('bpm' | 'key' | 'energy' | 'waveform' | 'loudness' | 'beatgrid' | 'structure' | 'descriptors' | 'quality')[];
+  bpmRange?: { min?: number; max?: number }; // expected tempo, used to resolve half/double-time
+  keep?: boolean; // store an uploaded file as a private track
+  allowRecognition?: boolean; // send an uploaded file to remote recognition providers (AudD)
+  startSeconds?: number; // analyze one section only
+  endSeconds?: number;
+  windows?: TimeWindow[]; // or several sections, each with its own result
+}
+
+export interface BackfillRequest {
+  targetVersion?: string; // re-analyze tracks below this analyzer version; defaults to the current one
+  includeFailed?: boolean;
+  limit?: number;
+}
+
+// Backfill Types
+export interface BackfillRun {
+  id: string;
+  targetVersion: string;
+  includeFailed: boolean;
+  total: number;
+  startedAt: Date;
+}
+
+export interface BackfillProgress {
+  status: 'idle' | 'running' | 'completed';
+  run?: BackfillRun;
+  completed: number;
+  failed: number;
+  remaining: number;
+  percent: number;
+  ratePerMinute: number;
 }
 
 // Webhook Types
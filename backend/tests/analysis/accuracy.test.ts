@@ -0,0 +1,51 @@
+import { FIXTURES } from '../fixtures/catalog';
+import { runBenchmark, keyScore, BenchmarkReport } from '../benchmark/harness';
+
+// Accuracy the analyzers reach today on the synthetic fixtures. A change that
+// falls below these is a regression; raise them when the analyzers improve.
+const BASELINE = {
+  tempoAccuracy1: 1,
+  tempoAccuracy2: 1,
+  tempoMeanAbsoluteError: 0.25, // BPM
+  keyAccuracy: 1,
+  loudnessMaxAbsoluteError: 0.2, // LU
+  boundsMaxAbsoluteError: 0.1 // seconds
+};
+
+describe('analysis accuracy on synthetic fixtures', () => {
+  let report: BenchmarkReport;
+
+  beforeAll(() => {
+    report = runBenchmark(FIXTURES);
+  }, 300000);
+
+  it('estimates tempo', () => {
+    expect(report.tempo.accuracy1).toBeGreaterThanOrEqual(BASELINE.tempoAccuracy1);
+    expect(report.tempo.accuracy2).toBeGreaterThanOrEqual(BASELINE.tempoAccuracy2);
+    expect(report.tempo.meanAbsoluteError).toBeLessThanOrEqual(BASELINE.tempoMeanAbsoluteError);
+  });
+
+  it('estimates key', () => {
+    expect(report.key.accuracy).toBeGreaterThanOrEqual(BASELINE.keyAccuracy);
+  });
+
+  it('measures loudness', () => {
+    expect(report.loudness.maxAbsoluteError).toBeLessThanOrEqual(BASELINE.loudnessMaxAbsoluteError);
+  });
+
+  it('finds where the music starts and ends', () => {
+    expect(report.bounds.maxAbsoluteError).toBeLessThanOrEqual(BASELINE.boundsMaxAbsoluteError);
+  });
+});
+
+describe('keyScore', () => {
+  it('gives partial credit for near misses', () => {
+    expect(keyScore('C major', 'C major')).toBe(1);
+    expect(keyScore('C major', 'G major')).toBe(0.5);
+    expect(keyScore('C major', 'A minor')).toBe(0.3);
+    expect(keyScore('A minor', 'C major')).toBe(0.3);
+    expect(keyScore('C major', 'C minor')).toBe(0.2);
+    expect(keyScore('C major', 'F# major')).toBe(0);
+    expect(keyScore('C major', null)).toBe(0);
+  });
+});
@@ -0,0 +1,43 @@
+import { compatibleKeys, matchTempo, compatibilityScore } from '@/services/analysis/harmonic';
+
+describe('compatibleKeys', () => {
+  it('lists the same key, its neighbours on the wheel and its relative', () => {
+    expect(compatibleKeys('A minor').map(key => [key.camelotKey, key.relation])).toEqual([
+      ['8A', 'same'],
+      ['9A', 'adjacent'],
+      ['7A', 'adjacent'],
+      ['8B', 'relative']
+    ]);
+  });
+
+  it('adds energy-boost jumps on request', () => {
+    const boosts = compatibleKeys('8A', { energyBoost: true }).filter(key => key.relation === 'energy_boost');
+    expect(boosts.map(key => key.musicalKey)).toEqual(['B minor', 'A# minor']);
+  });
+
+  it('reads the source key in any notation', () => {
+    expect(compatibleKeys('Am')).toEqual(compatibleKeys('8A'));
+    expect(compatibleKeys('not a key')).toEqual([]);
+  });
+});
+
+describe('matchTempo', () => {
+  it('matches at half and double time', () => {
+    expect(matchTempo(128, 126, 0.02)).toEqual({ relation: 'same', difference: 0.0156 });
+    expect(matchTempo(174, 87, 0.02)).toEqual({ relation: 'half', difference: 0 });
+    expect(matchTempo(85, 172, 0.02)).toEqual({ relation: 'double', difference: 0.0118 });
+  });
+
+  it('rejects tempos outside the tolerance', () => {
+    expect(matchTempo(128, 140, 0.02)).toBeNull();
+  });
+});
+
+describe('compatibilityScore', () => {
+  it('penalizes tempo gaps and half/double time', () => {
+    const [same] = compatibleKeys('8A');
+    expect(compatibilityScore(same, { relation: 'same', difference: 0 }, 0.06)).toBe(1);
+    expect(compatibilityScore(same, { relation: 'same', difference: 0.06 }, 0.06)).toBe(0.5);
+    expect(compatibilityScore(same, { relation: 'half', difference: 0 }, 0.06)).toBe(0.9);
+  });
+});
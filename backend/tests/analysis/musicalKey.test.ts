@@ -0,0 +1,78 @@
+import {
+  parseKey,
+  formatKey,
+  convertKey,
+  normalizeKey,
+  sameKey,
+  transposeKey,
+  wheelDistance,
+  MusicalKey
+} from '@/services/analysis/musicalKey';
+
+const key = (input: string) => parseKey(input) as MusicalKey;
+
+describe('parseKey', () => {
+  it('reads standard names, shorthands and enharmonic spellings', () => {
+    expect(normalizeKey('F# minor')).toBe('F# minor');
+    expect(normalizeKey('Gb major')).toBe('F# major');
+    expect(normalizeKey('Am')).toBe('A minor');
+    expect(normalizeKey('F#m')).toBe('F# minor');
+    expect(normalizeKey('Bbmin')).toBe('A# minor');
+    expect(normalizeKey('E♭ minor')).toBe('D# minor');
+    expect(normalizeKey('A-flat major')).toBe('G# major');
+    expect(normalizeKey('Cb')).toBe('B major');
+    expect(normalizeKey('CM')).toBe('C major');
+  });
+
+  it('reads Camelot and Open Key', () => {
+    expect(normalizeKey('8A')).toBe('A minor');
+    expect(normalizeKey('12b')).toBe('E major');
+    expect(normalizeKey('1d')).toBe('C major');
+    expect(normalizeKey('4m')).toBe('F# minor');
+  });
+
+  it('rejects anything else', () => {
+    expect(parseKey('H minor')).toBeNull();
+    expect(parseKey('13A')).toBeNull();
+    expect(parseKey('')).toBeNull();
+    expect(parseKey(undefined)).toBeNull();
+  });
+});
+
+describe('formatKey', () => {
+  it('round-trips every key through every notation', () => {
+    for (let tonic = 0; tonic < 12; tonic++) {
+      for (const mode of ['major', 'minor'] as const) {
+        for (const notation of ['standard', 'camelot', 'open_key'] as const) {
+          expect(parseKey(formatKey({ tonic, mode }, notation))).toEqual({ tonic, mode });
+        }
+      }
+    }
+  });
+
+  it('converts between notations', () => {
+    expect(convertKey('C minor', 'camelot')).toBe('5A');
+    expect(convertKey('5A', 'open_key')).toBe('10m');
+    expect(convertKey('Dbm', 'camelot')).toBe('12A');
+  });
+});
+
+describe('key arithmetic', () => {
+  it('transposes by semitones', () => {
+    expect(formatKey(transposeKey(key('A minor'), 2))).toBe('B minor');
+    expect(formatKey(transposeKey(key('C major'), -1))).toBe('B major');
+  });
+
+  it('measures distance on the Camelot wheel', () => {
+    expect(wheelDistance(key('8A'), key('8A'))).toBe(0);
+    expect(wheelDistance(key('8A'), key('8B'))).toBe(1);
+    expect(wheelDistance(key('1A'), key('12A'))).toBe(1);
+    expect(wheelDistance(key('8A'), key('3B'))).toBe(6);
+  });
+
+  it('compares keys across notations', () => {
+    expect(sameKey('Am', '8A')).toBe(true);
+    expect(sameKey('Gb major', 'F# major')).toBe(true);
+    expect(sameKey('A minor', 'C major')).toBe(false);
+  });
+});
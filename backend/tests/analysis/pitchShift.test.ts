@@ -0,0 +1,58 @@
+import { suggestPitchShifts } from '@/services/analysis/pitchShift';
+import { makeTrack } from '../fixtures/tracks';
+
+const track = (id: string, musicalKey: string, bpm = 126) => makeTrack(id, { musicalKey, bpm });
+
+describe('suggestPitchShifts', () => {
+  it('leaves compatible transitions alone', () => {
+    const [suggestion] = suggestPitchShifts([track('a', 'A minor'), track('b', 'E minor')], { maxSemitones: 2 });
+
+    expect(suggestion).toMatchObject({ semitones: 0, compatible: true, keyRelation: 'adjacent', keyLock: false });
+  });
+
+  it('shifts a semitone, upward when both directions work equally well', () => {
+    // D# minor (2A) a semitone up is E minor (9A), down is D minor (7A): both adjacent to 8A
+    const [suggestion] = suggestPitchShifts([track('a', 'A minor'), track('b', 'D# minor')], { maxSemitones: 2 });
+
+    expect(suggestion).toMatchObject({
+      semitones: 1,
+      resultingKey: 'E minor',
+      resultingCamelotKey: '9A',
+      keyRelation: 'adjacent',
+      pitchChangePercent: 5.95,
+      keyLock: true,
+      compatible: true
+    });
+  });
+
+  it('prefers the smaller shift over a better key move', () => {
+    // C minor (5A) down a semitone is B minor (10A), an energy boost; up two
+    // semitones would be D minor (7A), adjacent
+    const [suggestion] = suggestPitchShifts([track('a', 'A minor'), track('b', 'C minor')], { maxSemitones: 2 });
+
+    expect(suggestion).toMatchObject({ semitones: -1, resultingCamelotKey: '10A', keyRelation: 'energy_boost' });
+  });
+
+  it('warns when no shift in range works', () => {
+    const [suggestion] = suggestPitchShifts([track('a', 'A minor'), track('b', 'D# minor')], { maxSemitones: 0 });
+
+    expect(suggestion).toMatchObject({ semitones: 0, compatible: false });
+    expect(suggestion.warnings).toEqual(['No shift within ±0 semitones makes 2A compatible with 8A']);
+  });
+
+  it('carries a shift into the next transition', () => {
+    const suggestions = suggestPitchShifts(
+      [track('a', 'A minor'), track('b', 'D# minor'), track('c', 'F# minor')],
+      { maxSemitones: 2 }
+    );
+
+    // b is played as E minor, to which F# minor (11A) is an energy boost
+    expect(suggestions[1]).toMatchObject({ fromCamelotKey: '9A', semitones: 0, keyRelation: 'energy_boost' });
+  });
+
+  it('matches the tempo at half or double time', () => {
+    const [suggestion] = suggestPitchShifts([track('a', 'A minor', 174), track('b', 'A minor', 86)], { maxSemitones: 2 });
+
+    expect(suggestion).toMatchObject({ originalBpm: 86, adjustedBpm: 87, tempoChangePercent: 1.16, keyLock: false });
+  });
+});
@@ -0,0 +1,56 @@
+import { optimizeSetOrder } from '@/services/analysis/setOrder';
+import { makeTrack as track } from '../fixtures/tracks';
+
+// Same key and tempo throughout, so only the energy shape decides the order
+const byEnergy = (levels: Record<string, number>) =>
+  Object.entries(levels).map(([id, energyLevel]) => track(id, { musicalKey: 'A minor', bpm: 126, energyLevel }));
+
+describe('optimizeSetOrder', () => {
+  it('walks the Camelot wheel and steps the tempo smoothly', () => {
+    const tracks = [
+      track('c', { musicalKey: '10A', bpm: 128 }),
+      track('a', { musicalKey: '8A', bpm: 124 }),
+      track('b', { musicalKey: '9A', bpm: 126 })
+    ];
+    const order = optimizeSetOrder(tracks, { energyShape: 'flat' });
+
+    expect([order.trackIds, [...order.trackIds].reverse()]).toContainEqual(['a', 'b', 'c']);
+    expect(order.transitions.every(transition => transition.keyRelation === 'adjacent')).toBe(true);
+    expect(order.transitions.every(transition => transition.warnings.length === 0)).toBe(true);
+  });
+
+  it('keeps pinned first and last tracks in place', () => {
+    const tracks = byEnergy({ a: 0.2, b: 0.4, c: 0.6, d: 0.8, e: 0.9 });
+    const order = optimizeSetOrder(tracks, { energyShape: 'build_up', firstTrackId: 'd', lastTrackId: 'a' });
+
+    expect(order.trackIds[0]).toBe('d');
+    expect(order.trackIds[order.trackIds.length - 1]).toBe('a');
+    expect([...order.trackIds].sort()).toEqual(['a', 'b', 'c', 'd', 'e']);
+    expect(order.trackIds.slice(1, -1)).toEqual(['b', 'c', 'e']);
+  });
+
+  it('raises the energy for a build-up', () => {
+    const order = optimizeSetOrder(byEnergy({ c: 0.6, a: 0.2, e: 1, b: 0.4, d: 0.8 }), { energyShape: 'build_up' });
+    expect(order.trackIds).toEqual(['a', 'b', 'c', 'd', 'e']);
+  });
+
+  it('peaks late and releases for peak-and-release', () => {
+    const tracks = byEnergy({ a: 0.2, b: 0.4, c: 0.6, d: 0.8, e: 1, f: 0.6 });
+    const order = optimizeSetOrder(tracks, { energyShape: 'peak_and_release' });
+    const levels = order.trackIds.map(id => tracks.find(t => t.id === id)?.energyLevel);
+
+    expect(levels.indexOf(1)).toBe(3);
+    expect(levels[levels.length - 1]).toBeLessThan(1);
+    expect(levels.slice(0, 4)).toEqual([...levels.slice(0, 4)].sort());
+  });
+
+  it('warns about key clashes, tempo jumps and a missing energy shape', () => {
+    const order = optimizeSetOrder(
+      [track('a', { musicalKey: '8A', bpm: 124 }), track('b', { musicalKey: '2B', bpm: 150 })],
+      { energyShape: 'build_up', firstTrackId: 'a' }
+    );
+
+    expect(order.transitions[0].warnings).toEqual(['Key clash: 8A → 2B', 'Tempo jump: 124 → 150 BPM']);
+    expect(order.warnings).toEqual(['No energy levels detected; the energy shape was not applied']);
+  });
+});
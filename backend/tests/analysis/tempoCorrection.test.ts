@@ -0,0 +1,24 @@
+import { correctTempo } from '@/services/analysis/tempoCorrection';
+
+describe('correctTempo', () => {
+  it('keeps the detected tempo without hints', () => {
+    expect(correctTempo(87).bpm).toBe(87);
+  });
+
+  it('doubles or halves the tempo into the genre range', () => {
+    expect(correctTempo(87, { genres: ['Drum & Bass'] })).toMatchObject({ bpm: 174, multiplier: 2 });
+    expect(correctTempo(180, { genres: ['hip hop'] })).toMatchObject({ bpm: 90, multiplier: 0.5 });
+  });
+
+  it('follows a client bpmRange', () => {
+    expect(correctTempo(85, { bpmRange: { min: 160, max: 180 } }).bpm).toBe(170);
+    expect(correctTempo(140, { bpmRange: { max: 100 } }).bpm).toBe(70);
+  });
+
+  it('ranks every plausible candidate', () => {
+    const { candidates } = correctTempo(128, { genres: ['house'] });
+    expect(candidates[0]).toMatchObject({ bpm: 128, multiplier: 1 });
+    expect(candidates.map(candidate => candidate.bpm).sort((a, b) => a - b)).toEqual([64, 128, 192, 256].filter(bpm => bpm <= 250));
+    expect(candidates.reduce((sum, candidate) => sum + candidate.score, 0)).toBeCloseTo(1, 2);
+  });
+});
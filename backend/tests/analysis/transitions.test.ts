@@ -0,0 +1,88 @@
+import { planTransitions, matchTempos } from '@/services/analysis/transitions';
+import { StructureSegment, Track } from '@/types';
+import { makeTrack } from '../fixtures/tracks';
+
+// 120 BPM in 4/4: one bar every 2 seconds
+const BAR_SECONDS = 2;
+
+const track = (id: string, bars: number, fields: Partial<Track> = {}): Track => makeTrack(id, {
+  musicalKey: 'A minor',
+  bpm: 120,
+  beatGrid: {
+    bpm: 120,
+    firstBeatOffset: 0,
+    beatsPerBar: 4,
+    beats: Array.from({ length: bars * 4 }, (_, i) => i * (BAR_SECONDS / 4)),
+    downbeats: Array.from({ length: bars }, (_, i) => i * BAR_SECONDS)
+  },
+  ...fields
+});
+
+const segment = (label: StructureSegment['label'], startBar: number, endBar: number, energy: number): StructureSegment => ({
+  label,
+  start: startBar * BAR_SECONDS,
+  end: endBar * BAR_SECONDS,
+  bars: endBar - startBar,
+  energy
+});
+
+const barOf = (seconds: number) => seconds / BAR_SECONDS;
+
+describe('planTransitions', () => {
+  it('mixes out where the outro starts and in from the intro', () => {
+    const outgoing = track('out', 96, {
+      structure: [segment('intro', 0, 16, 0.4), segment('drop', 16, 72, 1), segment('outro', 72, 96, 0.5)]
+    });
+    const incoming = track('in', 96, {
+      structure: [segment('intro', 0, 32, 0.5), segment('drop', 32, 96, 1)]
+    });
+    const planning = planTransitions(outgoing, incoming);
+    const blend = planning?.plans.find(plan => plan.style === 'blend');
+
+    expect(blend).toMatchObject({ bars: 16, eqSwap: { bar: 8 } });
+    expect(barOf(blend!.mixOut.start)).toBe(72);
+    expect(barOf(blend!.mixIn.start)).toBe(0);
+    expect(planning?.warnings).toEqual([]);
+  });
+
+  it('lands the incoming drop at the end of the outgoing track', () => {
+    const outgoing = track('out', 96, { structure: [segment('drop', 0, 80, 1), segment('outro', 80, 96, 0.5)] });
+    const incoming = track('in', 96, { structure: [segment('intro', 0, 32, 0.5), segment('drop', 32, 96, 1)] });
+    const swap = planTransitions(outgoing, incoming)?.plans.find(plan => plan.style === 'drop_swap');
+
+    expect(swap?.bars).toBe(16);
+    expect(barOf(swap!.mixIn.end)).toBe(32);
+    expect(barOf(swap!.eqSwap.incomingTime)).toBe(32);
+  });
+
+  it('snaps a mix-out cue to the start of its phrase', () => {
+    const outgoing = track('out', 64, { cuePoints: [{ name: 'mix_out', time: 51 * BAR_SECONDS }] });
+    const planning = planTransitions(outgoing, track('in', 64));
+
+    expect(planning?.plans.map(plan => barOf(plan.mixOut.start) % 8)).toEqual(planning?.plans.map(() => 0));
+    expect(barOf(planning!.plans.find(plan => plan.style === 'blend')!.mixOut.start)).toBe(48);
+  });
+
+  it('leaves the last 16 bars for the mix without structure or cues', () => {
+    const planning = planTransitions(track('out', 70), track('in', 64));
+    const blend = planning?.plans.find(plan => plan.style === 'blend');
+
+    expect(barOf(blend!.mixOut.start)).toBe(48);
+    expect(planning?.warnings).toEqual([
+      'No structure detected for "out"; phrases are counted from its first downbeat',
+      'No structure detected for "in"; phrases are counted from its first downbeat'
+    ]);
+  });
+
+  it('needs a beat grid on both tracks', () => {
+    expect(planTransitions(track('out', 64), track('in', 64, { beatGrid: undefined }))).toBeNull();
+  });
+});
+
+describe('matchTempos', () => {
+  it('matches at half or double time when that is the smaller change', () => {
+    expect(matchTempos(174, 86)).toMatchObject({ relation: 'half', adjustedBpm: 87, adjustmentPercent: 1.16 });
+    expect(matchTempos(85, 172)).toMatchObject({ relation: 'double', adjustedBpm: 170, adjustmentPercent: -1.16 });
+    expect(matchTempos(128, 125)).toMatchObject({ relation: 'same', adjustedBpm: 128, adjustmentPercent: 2.4 });
+  });
+});
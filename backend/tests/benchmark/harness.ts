@@ -0,0 +1,173 @@
+import { LocalProvider } from '@/services/analysis/providers/local';
+import { LoudnessMeter } from '@/services/analysis/loudness';
+import { ANALYSIS_SAMPLE_RATE } from '@/services/analysis/decode';
+import { parseKey } from '@/services/analysis/musicalKey';
+import { round } from '@/services/analysis/dsp';
+import { Fixture } from '../fixtures/catalog';
+import { interleave } from '../fixtures/synthetic';
+
+// The loudness standard's reference rate, as in the loudness provider
+const LOUDNESS_SAMPLE_RATE = 48000;
+
+// MIREX tempo tolerance, and the metrical levels Acc2 also accepts
+const TEMPO_TOLERANCE = 0.04;
+const TEMPO_OCTAVES = [1, 2, 0.5, 3, 1 / 3];
+
+export interface FixtureResult {
+  name: string;
+  bpm?: { expected: number; estimated: number | null; error: number | null };
+  key?: { expected: string; estimated: string | null; score: number };
+  loudness?: { expected: number; measured: number | null; error: number | null };
+  bounds?: { expectedStart: number; expectedEnd: number; start: number; end: number; error: number };
+}
+
+export interface BenchmarkReport {
+  fixtures: FixtureResult[];
+  tempo: { cases: number; accuracy1: number; accuracy2: number; meanAbsoluteError: number };
+  key: { cases: number; accuracy: number; weightedScore: number };
+  loudness: { cases: number; meanAbsoluteError: number; maxAbsoluteError: number };
+  bounds: { cases: number; meanAbsoluteError: number; maxAbsoluteError: number };
+}
+
+/**
+ * Run the in-process analyzers on each fixture and score them against the
+ * known values. Nothing is decoded from files, so no ffmpeg is needed.
+ */
+export function runBenchmark(fixtures: Fixture[]): BenchmarkReport {
+  const provider = new LocalProvider();
+  const results = fixtures.map(fixture => benchmarkFixture(provider, fixture));
+
+  const tempo = results.flatMap(result => (result.bpm ? [result.bpm] : []));
+  const keys = results.flatMap(result => (result.key ? [result.key] : []));
+  const loudness = results.flatMap(result => (result.loudness ? [result.loudness] : []));
+  const bounds = results.flatMap(result => (result.bounds ? [result.bounds] : []));
+  const tempoWithin = (multipliers: number[]) => tempo.filter(({ expected, estimated }) =>
+    estimated !== null && multipliers.some(m => Math.abs(estimated - expected * m) <= expected * m * TEMPO_TOLERANCE)
+  ).length;
+
+  return {
+    fixtures: results,
+    tempo: {
+      cases: tempo.length,
+      accuracy1: fraction(tempoWithin([1]), tempo.length),
+      accuracy2: fraction(tempoWithin(TEMPO_OCTAVES), tempo.length),
+      meanAbsoluteError: meanError(tempo.map(({ error }) => error))
+    },
+    key: {
+      cases: keys.length,
+      accuracy: fraction(keys.filter(({ score }) => score === 1).length, keys.length),
+      weightedScore: round(keys.reduce((sum, { score }) => sum + score, 0) / Math.max(1, keys.length), 3)
+    },
+    loudness: {
+      cases: loudness.length,
+      meanAbsoluteError: meanError(loudness.map(({ error }) => error)),
+      maxAbsoluteError: maxError(loudness.map(({ error }) => error))
+    },
+    bounds: {
+      cases: bounds.length,
+      meanAbsoluteError: meanError(bounds.map(({ error }) => error)),
+      maxAbsoluteError: maxError(bounds.map(({ error }) => error))
+    }
+  };
+}
+
+/**
+ * MIREX key score: 1 for the right key, partial credit for near misses
+ */
+export function keyScore(expected: string, estimated: string | null): number {
+  const a = parseKey(expected);
+  const b = parseKey(estimated);
+  if (!a || !b) return 0;
+
+  const interval = (b.tonic - a.tonic + 12) % 12;
+  if (a.mode === b.mode && interval === 0) return 1;
+  if (a.mode === b.mode && (interval === 7 || interval === 5)) return 0.5; // fifth
+  if (a.mode === 'major' && b.mode === 'minor' && interval === 9) return 0.3; // relative
+  if (a.mode === 'minor' && b.mode === 'major' && interval === 3) return 0.3;
+  if (a.mode !== b.mode && interval === 0) return 0.2; // parallel
+  return 0;
+}
+
+/**
+ * Human-readable summary, one line per fixture then the totals
+ */
+export function formatReport(report: BenchmarkReport): string {
+  const lines = report.fixtures.map(result => {
+    const parts = [result.name.padEnd(32)];
+    if (result.bpm) parts.push(`bpm ${result.bpm.estimated ?? '-'} (${result.bpm.expected})`);
+    if (result.key) parts.push(`key ${result.key.estimated ?? '-'} (${result.key.expected})`);
+    if (result.loudness) parts.push(`loudness ${result.loudness.measured ?? '-'} LUFS (${result.loudness.expected})`);
+    if (result.bounds) parts.push(`bounds ${result.bounds.start}-${result.bounds.end}s (${result.bounds.expectedStart}-${result.bounds.expectedEnd})`);
+    return parts.join('  ');
+  });
+
+  const { tempo, key, loudness, bounds } = report;
+  lines.push(
+    '',
+    `Tempo     ${tempo.cases} cases  Acc1 ${percent(tempo.accuracy1)}  Acc2 ${percent(tempo.accuracy2)}  MAE ${tempo.meanAbsoluteError} BPM`,
+    `Key       ${key.cases} cases  accuracy ${percent(key.accuracy)}  weighted ${key.weightedScore}`,
+    `Loudness  ${loudness.cases} cases  MAE ${loudness.meanAbsoluteError} LU  max ${loudness.maxAbsoluteError} LU`,
+    `Bounds    ${bounds.cases} cases  MAE ${bounds.meanAbsoluteError} s  max ${bounds.maxAbsoluteError} s`
+  );
+  return lines.join('\n');
+}
+
+function benchmarkFixture(provider: LocalProvider, fixture: Fixture): FixtureResult {
+  const { expected } = fixture;
+  const result: FixtureResult = { name: fixture.name };
+
+  if (expected.bpm !== undefined || expected.key !== undefined || expected.audioStart !== undefined) {
+    const { values } = provider.analyzePcm({ samples: fixture.render(ANALYSIS_SAMPLE_RATE), sampleRate: ANALYSIS_SAMPLE_RATE });
+
+    if (expected.bpm !== undefined) {
+      const estimated = values.bpm ?? null;
+      result.bpm = { expected: expected.bpm, estimated, error: estimated === null ? null : round(Math.abs(estimated - expected.bpm), 2) };
+    }
+    if (expected.key !== undefined) {
+      const estimated = values.musicalKey ?? null;
+      result.key = { expected: expected.key, estimated, score: keyScore(expected.key, estimated) };
+    }
+    if (expected.audioStart !== undefined && expected.audioEnd !== undefined) {
+      const start = values.audioStart ?? 0;
+      const end = values.audioEnd ?? 0;
+      const error = Math.max(Math.abs(start - expected.audioStart), Math.abs(end - expected.audioEnd));
+      result.bounds = { expectedStart: expected.audioStart, expectedEnd: expected.audioEnd, start, end, error: round(error, 3) };
+    }
+  }
+
+  if (expected.loudness !== undefined) {
+    const samples = fixture.render(LOUDNESS_SAMPLE_RATE);
+    const meter = new LoudnessMeter(LOUDNESS_SAMPLE_RATE, 2);
+    meter.process(interleave([samples, samples]));
+    const measured = meter.getResult().integrated;
+    result.loudness = {
+      expected: expected.loudness,
+      measured,
+      error: measured === null ? null : round(Math.abs(measured - expected.loudness), 2)
+    };
+  }
+
+  return result;
+}
+
+function fraction(count: number, total: number): number {
+  return total > 0 ? round(count / total, 3) : 0;
+}
+
+/**
+ * Missing estimates count as infinitely wrong, so they cannot hide in an average
+ */
+function meanError(errors: (number | null)[]): number {
+  if (errors.length === 0) return 0;
+  if (errors.some(error => error === null)) return Infinity;
+  return round((errors as number[]).reduce((sum, error) => sum + error, 0) / errors.length, 3);
+}
+
+function maxError(errors: (number | null)[]): number {
+  if (errors.some(error => error === null)) return Infinity;
+  return errors.length > 0 ? Math.max(...(errors as number[])) : 0;
+}
+
+function percent(value: number): string {
+  return `${round(value * 100, 1)}%`;
+}
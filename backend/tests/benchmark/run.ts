@@ -0,0 +1,9 @@
+// Print the analysis accuracy benchmark: npm run benchmark
+
+import { FIXTURES } from '../fixtures/catalog';
+import { runBenchmark, formatReport } from './harness';
+
+const started = Date.now();
+const report = runBenchmark(FIXTURES);
+console.log(formatReport(report));
+console.log(`\n${FIXTURES.length} fixtures in ${((Date.now() - started) / 1000).toFixed(1)}s`);
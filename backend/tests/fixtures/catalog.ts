@@ -0,0 +1,64 @@
+import { chordProgression, clickTrack, mix, padWithSilence, referenceTone } from './synthetic';
+
+export interface FixtureExpectation {
+  bpm?: number;
+  key?: string;
+  loudness?: number; // integrated LUFS
+  audioStart?: number; // seconds
+  audioEnd?: number;
+}
+
+export interface Fixture {
+  name: string;
+  expected: FixtureExpectation;
+  render(sampleRate: number): Float32Array; // mono; the same signal goes to both channels where stereo is needed
+}
+
+const TEMPO_BPMS = [70, 90, 100, 120, 128, 140, 174];
+const KEYS = ['C major', 'G major', 'D# major', 'A major', 'A minor', 'E minor', 'F# minor', 'C minor'];
+const LOUDNESS_TARGETS = [-23, -14, -9];
+
+const PADDING = { leadingSeconds: 3, trailingSeconds: 2 };
+
+/**
+ * The benchmark set: one property per fixture where possible, so an error
+ * points at one analyzer
+ */
+export const FIXTURES: Fixture[] = [
+  ...TEMPO_BPMS.map(bpm => ({
+    name: `click-${bpm}bpm`,
+    expected: { bpm },
+    render: (sampleRate: number) => clickTrack({ bpm, seconds: 30 }, sampleRate)
+  })),
+  ...KEYS.map(key => ({
+    name: `chords-${key.replace(/ /g, '-').replace('#', 'sharp').toLowerCase()}`,
+    expected: { key },
+    render: (sampleRate: number) => chordProgression({ key, seconds: 24 }, sampleRate)
+  })),
+  ...LOUDNESS_TARGETS.map(lufs => ({
+    name: `tone${lufs}lufs-padded`,
+    expected: {
+      loudness: lufs,
+      audioStart: PADDING.leadingSeconds,
+      audioEnd: PADDING.leadingSeconds + 20
+    },
+    render: (sampleRate: number) => padWithSilence(referenceTone(lufs, 20, sampleRate), PADDING, sampleRate)
+  })),
+  {
+    name: 'song-d-major-122bpm-padded',
+    expected: {
+      bpm: 122,
+      key: 'D major',
+      audioStart: PADDING.leadingSeconds,
+      audioEnd: PADDING.leadingSeconds + 32
+    },
+    render: (sampleRate: number) => padWithSilence(
+      mix(
+        chordProgression({ key: 'D major', seconds: 32, chordSeconds: 60 / 122 * 4 }, sampleRate),
+        clickTrack({ bpm: 122, seconds: 32 }, sampleRate)
+      ),
+      PADDING,
+      sampleRate
+    )
+  }
+];
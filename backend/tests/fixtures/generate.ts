@@ -0,0 +1,31 @@
+// Write the benchmark fixtures as WAV files, with their expected values in
+// manifest.json, for running through the full decode-and-analyze pipeline:
+// npm run fixtures -- [output directory]
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { FIXTURES } from './catalog';
+import { encodeWav } from './synthetic';
+
+const SAMPLE_RATE = 44100;
+
+async function main(): Promise<void> {
+  const directory = path.resolve(process.argv[2] || 'tests/fixtures/audio');
+  await fs.mkdir(directory, { recursive: true });
+
+  const manifest: Record<string, unknown> = {};
+  for (const fixture of FIXTURES) {
+    const samples = fixture.render(SAMPLE_RATE);
+    const file = `${fixture.name}.wav`;
+    await fs.writeFile(path.join(directory, file), encodeWav([samples, samples], SAMPLE_RATE));
+    manifest[file] = fixture.expected;
+  }
+
+  await fs.writeFile(path.join(directory, 'manifest.json'), JSON.stringify(manifest, null, 2));
+  console.log(`Wrote ${FIXTURES.length} fixtures to ${directory}`);
+}
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,192 @@
+// Synthetic test audio with known tempo, key, loudness and silence
+
+import { parseKey } from '@/services/analysis/musicalKey';
+
+const CLICK_SECONDS = 0.03;
+const CLICK_HZ = 1000;
+const DOWNBEAT_CLICK_HZ = 2000;
+const KICK_HZ = 55;
+
+// Harmonic amplitudes of each synthesized note, fundamental first
+const NOTE_HARMONICS = [1, 0.5, 0.33, 0.25];
+
+// Triads built on each scale degree of the progressions below
+const MAJOR_TRIAD = [0, 4, 7];
+const MINOR_TRIAD = [0, 3, 7];
+
+// I-vi-IV-V in major; i-VI-iv-V in minor, with the leading tone that tells it from the relative major
+const MAJOR_PROGRESSION: [number, number[]][] = [[0, MAJOR_TRIAD], [9, MINOR_TRIAD], [5, MAJOR_TRIAD], [7, MAJOR_TRIAD]];
+const MINOR_PROGRESSION: [number, number[]][] = [[0, MINOR_TRIAD], [8, MAJOR_TRIAD], [5, MINOR_TRIAD], [7, MAJOR_TRIAD]];
+
+export interface ClickTrackOptions {
+  bpm: number;
+  seconds: number;
+  beatsPerBar?: number;
+}
+
+export interface ChordProgressionOptions {
+  key: string; // e.g. "F# minor"
+  seconds: number;
+  chordSeconds?: number;
+}
+
+export interface PaddingOptions {
+  leadingSeconds: number;
+  trailingSeconds: number;
+}
+
+/**
+ * Seeded pseudo-random numbers in [0, 1), so fixtures are identical on every run
+ */
+export function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Metronome clicks on every beat, with a higher click and a kick on each downbeat
+ */
+export function clickTrack(options: ClickTrackOptions, sampleRate: number): Float32Array {
+  const { bpm, seconds, beatsPerBar = 4 } = options;
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  const clickLength = Math.round(CLICK_SECONDS * sampleRate);
+  const random = seededRandom(bpm * 1000);
+
+  for (let beat = 0; beat * 60 / bpm < seconds; beat++) {
+    const start = Math.round((beat * 60 / bpm) * sampleRate);
+    const downbeat = beat % beatsPerBar === 0;
+    const pitch = downbeat ? DOWNBEAT_CLICK_HZ : CLICK_HZ;
+
+    for (let i = 0; i < clickLength && start + i < samples.length; i++) {
+      const t = i / sampleRate;
+      const decay = Math.exp(-t / (CLICK_SECONDS / 5));
+      const tone = Math.sin(2 * Math.PI * pitch * t);
+      const noise = i < clickLength / 10 ? random() * 2 - 1 : 0;
+      const kick = downbeat ? Math.sin(2 * Math.PI * KICK_HZ * t) * Math.exp(-t / CLICK_SECONDS) : 0;
+      samples[start + i] += 0.5 * decay * (tone + 0.5 * noise) + 0.4 * kick;
+    }
+  }
+
+  return samples;
+}
+
+/**
+ * A four-chord progression in a key, each chord voiced as a triad over its root in the bass
+ */
+export function chordProgression(options: ChordProgressionOptions, sampleRate: number): Float32Array {
+  const { key, seconds, chordSeconds = 2 } = options;
+  const parsed = parseKey(key);
+  if (!parsed) {
+    throw new Error(`Unknown key "${key}"`);
+  }
+  const { tonic, mode } = parsed;
+
+  const progression = mode === 'major' ? MAJOR_PROGRESSION : MINOR_PROGRESSION;
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  const chordLength = Math.round(chordSeconds * sampleRate);
+
+  for (let chord = 0; chord * chordLength < samples.length; chord++) {
+    const [degree, triad] = progression[chord % progression.length];
+    const root = 48 + ((tonic + degree) % 12); // C3-B3
+    const notes = [root - 12, ...triad.map(interval => root + 12 + interval)];
+    const start = chord * chordLength;
+
+    for (let i = 0; i < chordLength && start + i < samples.length; i++) {
+      const t = i / sampleRate;
+      const envelope = Math.min(1, t / 0.01) * (0.5 + 0.5 * Math.exp(-t / 0.5));
+      let value = 0;
+      for (const note of notes) {
+        const frequency = 440 * 2 ** ((note - 69) / 12);
+        NOTE_HARMONICS.forEach((amplitude, h) => {
+          value += amplitude * Math.sin(2 * Math.PI * frequency * (h + 1) * t);
+        });
+      }
+      samples[start + i] = 0.08 * envelope * value;
+    }
+  }
+
+  return samples;
+}
+
+/**
+ * A sine tone in both channels at a loudness in LUFS. At 1 kHz the K-weighting
+ * gain cancels the measurement offset, so a tone peaking at L dBFS reads L LUFS
+ * (the EBU Tech 3341 reference signal).
+ */
+export function referenceTone(lufs: number, seconds: number, sampleRate: number, frequency: number = 1000): Float32Array {
+  const amplitude = 10 ** (lufs / 20);
+  const samples = new Float32Array(Math.round(seconds * sampleRate));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate);
+  }
+  return samples;
+}
+
+/**
+ * Surround a signal with digital silence
+ */
+export function padWithSilence(samples: Float32Array, padding: PaddingOptions, sampleRate: number): Float32Array {
+  const leading = Math.round(padding.leadingSeconds * sampleRate);
+  const padded = new Float32Array(leading + samples.length + Math.round(padding.trailingSeconds * sampleRate));
+  padded.set(samples, leading);
+  return padded;
+}
+
+/**
+ * Mix signals of possibly different lengths
+ */
+export function mix(...signals: Float32Array[]): Float32Array {
+  const mixed = new Float32Array(Math.max(...signals.map(signal => signal.length)));
+  for (const signal of signals) {
+    for (let i = 0; i < signal.length; i++) mixed[i] += signal[i];
+  }
+  return mixed;
+}
+
+/**
+ * Interleave channels, e.g. for the loudness meter
+ */
+export function interleave(channels: Float32Array[]): Float32Array {
+  const length = Math.min(...channels.map(channel => channel.length));
+  const interleaved = new Float32Array(length * channels.length);
+  for (let i = 0; i < length; i++) {
+    for (let c = 0; c < channels.length; c++) interleaved[i * channels.length + c] = channels[c][i];
+  }
+  return interleaved;
+}
+
+/**
+ * 16-bit PCM WAV file contents
+ */
+export function encodeWav(channels: Float32Array[], sampleRate: number): Buffer {
+  const samples = interleave(channels);
+  const dataLength = samples.length * 2;
+  const buffer = Buffer.alloc(44 + dataLength);
+
+  buffer.write('RIFF', 0);
+  buffer.writeUInt32LE(36 + dataLength, 4);
+  buffer.write('WAVE', 8);
+  buffer.write('fmt ', 12);
+  buffer.writeUInt32LE(16, 16);
+  buffer.writeUInt16LE(1, 20); // PCM
+  buffer.writeUInt16LE(channels.length, 22);
+  buffer.writeUInt32LE(sampleRate, 24);
+  buffer.writeUInt32LE(sampleRate * channels.length * 2, 28);
+  buffer.writeUInt16LE(channels.length * 2, 32);
+  buffer.writeUInt16LE(16, 34);
+  buffer.write('data', 36);
+  buffer.writeUInt32LE(dataLength, 40);
+
+  for (let i = 0; i < samples.length; i++) {
+    const clamped = Math.max(-1, Math.min(1, samples[i]));
+    buffer.writeInt16LE(Math.round(clamped * 32767), 44 + i * 2);
+  }
+
+  return buffer;
+}
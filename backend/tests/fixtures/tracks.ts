@@ -0,0 +1,15 @@
+import { Track } from '@/types';
+
+/**
+ * A completed track with only the fields a test cares about
+ */
+export function makeTrack(id: string, fields: Partial<Track> = {}): Track {
+  return {
+    id,
+    title: id,
+    analysisStatus: 'completed',
+    createdAt: new Date(0),
+    updatedAt: new Date(0),
+    ...fields
+  };
+}
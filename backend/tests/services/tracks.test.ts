@@ -0,0 +1,45 @@
+import { database } from '@/utils/database';
+import { trackService } from '@/services/tracks';
+import { makeTrack } from '../fixtures/tracks';
+
+jest.mock('@/utils/database', () => ({ database: { query: jest.fn(), queryOne: jest.fn() } }));
+jest.mock('@/utils/logger', () => ({ logger: { info: jest.fn(), warn: jest.fn(), error: jest.fn() } }));
+
+const query = database.query as jest.Mock;
+
+describe('trackService.findCompatible', () => {
+  beforeEach(() => {
+    query.mockReset().mockResolvedValue([]);
+  });
+
+  const options = { bpmTolerance: 0.06, limit: 10 };
+
+  it('leaves out every copy of the recording a re-upload belongs to', async () => {
+    const reupload = makeTrack('reupload', { musicalKey: 'A minor', bpm: 126, canonicalTrackId: 'original' });
+    await trackService.findCompatible(reupload, options);
+
+    const [sql, params] = query.mock.calls[0];
+    expect(params.slice(0, 2)).toEqual(['reupload', 'original']);
+    expect(sql).toContain('id <> $2');
+    expect(sql).toContain('canonical_track_id IS DISTINCT FROM $2');
+  });
+
+  it('leaves out re-uploads of an original', async () => {
+    const original = makeTrack('original', { musicalKey: 'A minor', bpm: 126 });
+    await trackService.findCompatible(original, options);
+
+    const [sql, params] = query.mock.calls[0];
+    expect(params.slice(0, 2)).toEqual(['original', 'original']);
+    expect(sql).toContain('canonical_track_id IS DISTINCT FROM $1');
+  });
+
+  it('scores candidates by their normalized intro key', async () => {
+    query.mockResolvedValue([
+      { id: 'next', title: 'next', musical_key: 'Em', intro_camelot_key: '9A', bpm: '127.00', analysis_status: 'completed' }
+    ]);
+    const [match] = await trackService.findCompatible(makeTrack('source', { musicalKey: 'A minor', bpm: 126 }), options);
+
+    expect(match).toMatchObject({ keyRelation: 'adjacent', tempoRelation: 'same' });
+    expect(match.track.id).toBe('next');
+  });
+});
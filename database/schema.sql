@@ -42,7 +42,7 @@ CREATE TABLE music_requests (
 -- Tracks and Audio Analysis
 CREATE TABLE tracks (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
-    youtube_id VARCHAR(50) UNIQUE NOT NULL,
+    youtube_id VARCHAR(50) UNIQUE, -- NULL for uploaded files
     title VARCHAR(500) NOT NULL,
     artist VARCHAR(500),
     duration_seconds INTEGER,
@@ -51,19 +51,55 @@ CREATE TABLE tracks (
     audio_url TEXT,
     s3_key VARCHAR(500),
     
+    -- Uploaded files are private to the uploader
+    owner_user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+    is_private BOOLEAN DEFAULT false,
+    storage_path TEXT,
+    
     -- Audio Analysis
     bpm DECIMAL(6,2),
     musical_key VARCHAR(10),
     camelot_key VARCHAR(5),
     energy_level DECIMAL(3,2),
+    energy_curve JSONB,
+    descriptors JSONB,
     loudness DECIMAL(6,2),
+    loudness_short_term_max DECIMAL(6,2),
+    true_peak DECIMAL(6,2),
+    loudness_range DECIMAL(6,2),
     tempo_confidence DECIMAL(3,2),
+    tempo_candidates JSONB,
+    tempo_curve JSONB,
     key_confidence DECIMAL(3,2),
+    key_modulations JSONB,
+    intro_key VARCHAR(10),
+    outro_key VARCHAR(10),
+    -- Intro key (or main key) as a Camelot key, whatever spelling the keys were stored in
+    intro_camelot_key VARCHAR(5),
+    analysis_provenance JSONB,
+    analyzer_version VARCHAR(20),
+    provider_versions JSONB,
+    beat_grid JSONB,
+    structure_segments JSONB,
+    cue_points JSONB,
     
     -- Waveform Data
     waveform_peaks JSONB,
     waveform_duration INTEGER,
     
+    -- Music bounds past leading/trailing silence or speech (seconds)
+    audio_start DECIMAL(10,3),
+    audio_end DECIMAL(10,3),
+    
+    -- Source quality; the grade is kept separately so it can be filtered on
+    quality JSONB,
+    quality_grade VARCHAR(1),
+    
+    -- Fingerprint of the first two minutes; re-uploads point at the first stored copy
+    fingerprint TEXT,
+    fingerprint_hashes INTEGER[],
+    canonical_track_id UUID REFERENCES tracks(id) ON DELETE SET NULL,
+    
     -- Metadata
     genre VARCHAR(100),
     mood VARCHAR(100),
@@ -71,10 +107,23 @@ CREATE TABLE tracks (
     
     analysis_status VARCHAR(50) DEFAULT 'pending',
     analysis_completed_at TIMESTAMP,
+    -- Last failed re-analysis of a completed track, whose analysis is kept
+    backfill_error TEXT,
+    backfill_failed_at TIMESTAMP,
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Zoomable waveforms, served on demand instead of living on tracks
+CREATE TABLE track_waveforms (
+    track_id UUID REFERENCES tracks(id) ON DELETE CASCADE,
+    pixels_per_second INTEGER NOT NULL,
+    duration DECIMAL(10,3),
+    data JSONB NOT NULL,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+    PRIMARY KEY (track_id, pixels_per_second)
+);
+
 -- Templates and Marketplace
 CREATE TABLE templates (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -115,6 +164,18 @@ CREATE TABLE api_usage (
     created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
 );
 
+-- Transition plans between two tracks
+CREATE TABLE mixes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID REFERENCES users(id),
+    outgoing_track_id UUID REFERENCES tracks(id) ON DELETE CASCADE,
+    incoming_track_id UUID REFERENCES tracks(id) ON DELETE CASCADE,
+    tempo JSONB NOT NULL,
+    plans JSONB NOT NULL,
+    warnings JSONB,
+    created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Webhooks
 CREATE TABLE webhooks (
     id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
@@ -130,8 +191,14 @@ CREATE TABLE webhooks (
 CREATE INDEX idx_tracks_youtube_id ON tracks(youtube_id);
 CREATE INDEX idx_tracks_bpm ON tracks(bpm) WHERE bpm IS NOT NULL;
 CREATE INDEX idx_tracks_musical_key ON tracks(musical_key) WHERE musical_key IS NOT NULL;
+CREATE INDEX idx_tracks_intro_camelot_key_bpm ON tracks(intro_camelot_key, bpm) WHERE intro_camelot_key IS NOT NULL;
+CREATE INDEX idx_tracks_fingerprint_hashes ON tracks USING GIN (fingerprint_hashes);
+CREATE INDEX idx_tracks_canonical_track_id ON tracks(canonical_track_id) WHERE canonical_track_id IS NOT NULL;
+CREATE INDEX idx_tracks_owner_user_id ON tracks(owner_user_id) WHERE owner_user_id IS NOT NULL;
+CREATE INDEX idx_tracks_analyzer_version ON tracks(analyzer_version);
 CREATE INDEX idx_music_requests_user_id ON music_requests(user_id);
 CREATE INDEX idx_music_requests_created_at ON music_requests(created_at);
+CREATE INDEX idx_mixes_user_id ON mixes(user_id);
 CREATE INDEX idx_api_usage_user_id_created_at ON api_usage(user_id, created_at);
 CREATE INDEX idx_api_keys_user_id ON api_keys(user_id);
 